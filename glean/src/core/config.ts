@@ -3,8 +3,10 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
 
 import { DEFAULT_TELEMETRY_ENDPOINT, GLEAN_MAX_SOURCE_TAGS } from "./constants.js";
-import { validateHeader, validateURL } from "./utils.js";
+import { isInteger, isNumber, isString, isUndefined, validateHeader, validateURL } from "./utils.js";
+import { MAX_LENGTH_VALUE } from "./metrics/types/string.js";
 import type Uploader from "./upload/uploader.js";
+import type Plugin from "../plugins/index.js";
 import log, { LoggingLevel } from "./log.js";
 import { Context } from "./context.js";
 
@@ -14,6 +16,16 @@ const LOG_TAG = "core.Config";
 // explicitly sets a higher value, we will send the events ping after every event.
 const DEFAULT_MAX_EVENTS = 1;
 
+// By default the remote configuration is refreshed every hour.
+const DEFAULT_REMOTE_CONFIG_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+// By default the metrics ping is submitted at 04:00, local time.
+const DEFAULT_METRICS_PING_SCHEDULE_HOUR = 4;
+
+// The longest delay timers support, in milliseconds.
+// Longer delays overflow and the timer fires right away.
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 /**
  * Lists Glean's debug options.
  */
@@ -26,6 +38,51 @@ export interface DebugOptions {
   sourceTags?: string[];
 }
 
+/**
+ * Lists Glean's upload policy options.
+ *
+ * Every option that is not set falls back to its default value.
+ */
+export interface UploadPolicyOptions {
+  // The maximum times the ping upload worker may get Wait_UploadTask responses in a row.
+  readonly maxWaitAttempts?: number,
+  // The maximum recoverable failures allowed per uploading window.
+  readonly maxRecoverableFailures?: number,
+  // The maximum size in bytes a ping body may have to be eligible for upload.
+  readonly maxPingBodySize?: number,
+  // The base amount of time to wait before retrying after a recoverable failure, in milliseconds.
+  readonly baseBackoffTime?: number,
+  // The maximum amount of time to wait before retrying after a recoverable failure, in milliseconds.
+  readonly maxBackoffTime?: number,
+  // The duration of each rate limiting interval, in milliseconds.
+  readonly rateLimitInterval?: number,
+  // The maximum number of pings uploaded per rate limiting interval.
+  readonly maxPingsPerInterval?: number,
+  // The maximum number of pending pings kept in the pings database.
+  readonly maxPendingPings?: number,
+  // The maximum size in bytes of the pending pings kept in the pings database.
+  readonly maxPendingPingsSize?: number,
+}
+
+// All the supported upload policy options.
+const UPLOAD_POLICY_OPTIONS: (keyof UploadPolicyOptions)[] = [
+  "maxWaitAttempts",
+  "maxRecoverableFailures",
+  "maxPingBodySize",
+  "baseBackoffTime",
+  "maxBackoffTime",
+  "rateLimitInterval",
+  "maxPingsPerInterval",
+  "maxPendingPings",
+  "maxPendingPingsSize"
+];
+
+// Upload policy options which may be zero, all other options must be strictly positive.
+const NON_NEGATIVE_UPLOAD_POLICY_OPTIONS = ["maxWaitAttempts", "baseBackoffTime", "maxBackoffTime"];
+
+// Upload policy options which are given to timers, in milliseconds.
+const TIMER_UPLOAD_POLICY_OPTIONS = ["rateLimitInterval", "baseBackoffTime", "maxBackoffTime"];
+
 /**
  * Describes how to configure Glean.
  */
@@ -40,6 +97,9 @@ export interface ConfigurationInterface {
   readonly serverEndpoint?: string,
   // The maximum number of events to store before submitting the events ping.
   readonly maxEvents?: number,
+  // The maximum age, in seconds, the oldest stored event may reach before submitting the events ping.
+  // If not set, the events ping is never submitted because of the age of its events.
+  readonly maxEventsAge?: number,
   // The HTTP client implementation to use for uploading pings.
   httpClient?: Uploader,
   // The build date, provided by glean_parser
@@ -50,6 +110,40 @@ export interface ConfigurationInterface {
   // Allow the client to explicitly specify whether they want page load events to be
   // collected automatically.
   readonly enableAutoPageLoadEvents?: boolean,
+  // Whether to submit the `baseline` ping and flush batched events automatically
+  // whenever the application becomes active or inactive, e.g. when the page is shown or hidden.
+  // Either way, the application may signal it through `handleClientActive` and `handleClientInactive`.
+  readonly enableAutoLifecyclePings?: boolean,
+  // Tuning of ping storage, uploading and requests.
+  readonly uploadPolicy?: UploadPolicyOptions,
+  // The randomization unit id assigned by an experimentation platform, sent in every ping.
+  readonly experimentationId?: string,
+  // The fraction of clients, between 0 and 1, which send telemetry.
+  // Clients outside the sample behave as if upload was disabled. Defaults to all clients.
+  readonly clientSampleRate?: number,
+  // The URL Glean periodically fetches the server knobs configuration from.
+  // If not set, no remote configuration is fetched.
+  readonly remoteConfigUrl?: string,
+  // How often to refresh the remote configuration, in milliseconds.
+  readonly remoteConfigRefreshInterval?: number,
+  // Whether to submit the built-in `metrics` ping once per calendar day.
+  readonly enableMetricsPing?: boolean,
+  // The local hour of the day, between 0 and 23, the `metrics` ping is submitted at.
+  readonly metricsPingScheduleHour?: number,
+  // Optional list of plugins to include in current Glean instance.
+  readonly plugins?: Plugin[],
+}
+
+/**
+ * Validates whether or not a given value is an acceptable remote configuration URL.
+ *
+ * Contrary to the server endpoint, the remote configuration URL may contain a path and a query.
+ *
+ * @param v The value to validate.
+ * @returns Whether or not the given value is a valid remote configuration URL.
+ */
+function validateRemoteConfigURL(v: string): boolean {
+  return /^(http|https):\/\/[a-zA-Z0-9._-]+(:\d+)?([/?]\S*)?$/i.test(v);
 }
 
 // Important: the `Configuration` should only be used internally by the Glean singleton.
@@ -60,8 +154,17 @@ export class Configuration implements ConfigurationInterface {
   readonly serverEndpoint: string;
   readonly buildDate?: Date;
   readonly maxEvents: number;
+  readonly maxEventsAge?: number;
   readonly migrateFromLegacyStorage?: boolean;
   readonly enableAutoPageLoadEvents?: boolean;
+  readonly enableAutoLifecyclePings?: boolean;
+  readonly uploadPolicy: UploadPolicyOptions;
+  readonly experimentationId?: string;
+  readonly clientSampleRate?: number;
+  readonly remoteConfigUrl?: string;
+  readonly remoteConfigRefreshInterval: number;
+  readonly enableMetricsPing?: boolean;
+  readonly metricsPingScheduleHour: number;
 
   // Debug configuration.
   debug: DebugOptions;
@@ -74,8 +177,34 @@ export class Configuration implements ConfigurationInterface {
     this.appDisplayVersion = config?.appDisplayVersion;
     this.buildDate = config?.buildDate;
     this.maxEvents = config?.maxEvents || DEFAULT_MAX_EVENTS;
+
+    const maxEventsAge = config?.maxEventsAge;
+    const maxMaxEventsAge = Math.floor(MAX_TIMEOUT_MS / 1000);
+    if (!isUndefined(maxEventsAge) && (!isInteger(maxEventsAge) || maxEventsAge < 1 || maxEventsAge > maxMaxEventsAge)) {
+      throw new Error(
+        `Unable to initialize Glean, maxEventsAge must be an integer between 1 and ${maxMaxEventsAge}.`);
+    }
+    this.maxEventsAge = maxEventsAge;
+
     this.migrateFromLegacyStorage = config?.migrateFromLegacyStorage;
     this.enableAutoPageLoadEvents = config?.enableAutoPageLoadEvents;
+    this.enableAutoLifecyclePings = config?.enableAutoLifecyclePings;
+    const experimentationId = config?.experimentationId;
+    if (
+      !isUndefined(experimentationId) &&
+      (!isString(experimentationId) || experimentationId.length > MAX_LENGTH_VALUE)
+    ) {
+      throw new Error(
+        `Unable to initialize Glean, experimentationId must be a string of at most ${MAX_LENGTH_VALUE} characters.`);
+    }
+    this.experimentationId = experimentationId;
+
+    const sampleRate = config?.clientSampleRate;
+    if (!isUndefined(sampleRate) && (!isNumber(sampleRate) || sampleRate < 0 || sampleRate > 1)) {
+      throw new Error(
+        "Unable to initialize Glean, clientSampleRate must be a number between 0 and 1.");
+    }
+    this.clientSampleRate = sampleRate;
 
     this.debug = {};
 
@@ -93,6 +222,62 @@ export class Configuration implements ConfigurationInterface {
       ? config.serverEndpoint : DEFAULT_TELEMETRY_ENDPOINT;
 
     this.httpClient = config?.httpClient;
+
+    if (config?.remoteConfigUrl && !validateRemoteConfigURL(config.remoteConfigUrl)) {
+      throw new Error(
+        `Unable to initialize Glean, remoteConfigUrl ${config.remoteConfigUrl} is an invalid URL.`);
+    }
+
+    if (!Context.testing && config?.remoteConfigUrl?.startsWith("http:")) {
+      throw new Error(
+        `Unable to initialize Glean, remoteConfigUrl ${config.remoteConfigUrl} must use the HTTPS protocol.`);
+    }
+
+    this.remoteConfigUrl = config?.remoteConfigUrl;
+
+    const refreshInterval = config?.remoteConfigRefreshInterval;
+    if (
+      !isUndefined(refreshInterval) &&
+      (!isInteger(refreshInterval) || refreshInterval < 1 || refreshInterval > MAX_TIMEOUT_MS)
+    ) {
+      throw new Error(
+        `Unable to initialize Glean, remoteConfigRefreshInterval must be an integer between 1 and ${MAX_TIMEOUT_MS}.`);
+    }
+
+    this.remoteConfigRefreshInterval = refreshInterval ?? DEFAULT_REMOTE_CONFIG_REFRESH_INTERVAL_MS;
+
+    this.enableMetricsPing = config?.enableMetricsPing;
+
+    const scheduleHour = config?.metricsPingScheduleHour;
+    if (!isUndefined(scheduleHour) && (!isInteger(scheduleHour) || scheduleHour < 0 || scheduleHour > 23)) {
+      throw new Error(
+        "Unable to initialize Glean, metricsPingScheduleHour must be an integer between 0 and 23.");
+    }
+
+    this.metricsPingScheduleHour = scheduleHour ?? DEFAULT_METRICS_PING_SCHEDULE_HOUR;
+
+    this.uploadPolicy = { ...config?.uploadPolicy };
+    for (const [option, value] of Object.entries(this.uploadPolicy)) {
+      if (!(UPLOAD_POLICY_OPTIONS as string[]).includes(option)) {
+        throw new Error(
+          `Unable to initialize Glean, uploadPolicy.${option} is not a supported option.`);
+      }
+
+      if (isUndefined(value)) {
+        continue;
+      }
+
+      const minimum = NON_NEGATIVE_UPLOAD_POLICY_OPTIONS.includes(option) ? 0 : 1;
+      if (!isInteger(value) || value < minimum) {
+        throw new Error(
+          `Unable to initialize Glean, uploadPolicy.${option} must be an integer greater than or equal to ${minimum}.`);
+      }
+
+      if (TIMER_UPLOAD_POLICY_OPTIONS.includes(option) && value > MAX_TIMEOUT_MS) {
+        throw new Error(
+          `Unable to initialize Glean, uploadPolicy.${option} must be lower than or equal to ${MAX_TIMEOUT_MS}.`);
+      }
+    }
   }
 
   get logPings(): boolean {
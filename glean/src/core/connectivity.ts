@@ -0,0 +1,22 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+interface Connectivity {
+  /**
+   * Checks whether or not the network is currently reachable.
+   *
+   * @returns Whether or not the device is online.
+   */
+  isOnline(): boolean;
+
+  /**
+   * Registers a callback to be called whenever the network becomes reachable again.
+   *
+   * @param callback The function to call when the device goes back online.
+   * @returns A function which unregisters the callback.
+   */
+  onOnline(callback: () => void): () => void;
+}
+
+export default Connectivity;
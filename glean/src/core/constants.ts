@@ -28,6 +28,22 @@ export const PING_INFO_STORAGE = "glean_ping_info";
 // See: https://mozilla.github.io/glean/book/dev/core/internal/reserved-ping-names.html
 export const CLIENT_INFO_STORAGE = "glean_client_info";
 
+// The name of a "ping" that will include metrics which are sent in every ping,
+// such as the experimentation id.
+//
+// Note that this is not really a ping,
+// but a neat way to gather metrics in the metrics database.
+export const ALL_PINGS_STORAGE = "all-pings";
+
+// The name of a "ping" that will include Glean internal data,
+// such as the active experiments.
+//
+// Note that this is not really a ping,
+// but a neat way to gather metrics in the metrics database.
+//
+// See: https://mozilla.github.io/glean/book/dev/core/internal/reserved-ping-names.html
+export const INTERNAL_STORAGE = "glean_internal_info";
+
 // We will set the client id to this client id in case upload is disabled.
 export const KNOWN_CLIENT_ID = "c0ffeec0-ffee-c0ff-eec0-ffeec0ffeec0";
 
@@ -40,6 +56,12 @@ export const DELETION_REQUEST_PING_NAME = "deletion-request";
 // The name of the events ping.
 export const EVENTS_PING_NAME = "events";
 
+// The name of the metrics ping.
+export const METRICS_PING_NAME = "metrics";
+
+// The name of the baseline ping.
+export const BASELINE_PING_NAME = "baseline";
+
 // The maximum amount of source tags a user can set.
 export const GLEAN_MAX_SOURCE_TAGS = 5;
 
@@ -53,3 +75,9 @@ export const GLEAN_RESERVED_EXTRA_KEYS = [
   GLEAN_EXECUTION_COUNTER_EXTRA_KEY,
   GLEAN_REFERENCE_TIME_EXTRA_KEY
 ];
+
+// The extra key the sampling rate of sampled events is reported under.
+//
+// Contrary to the reserved extra keys above, this one is sent in the ping payload,
+// so that analysts are able to re-weight sampled events.
+export const GLEAN_SAMPLING_RATE_EXTRA_KEY = "glean_sampling_rate";
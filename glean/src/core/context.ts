@@ -6,15 +6,18 @@ import type MetricsDatabase from "./metrics/database.js";
 import type EventsDatabase from "./metrics/events_database/index.js";
 import type PingsDatabase from "./pings/database.js";
 import type ErrorManager from "./error/index.js";
+import type ServerKnobs from "./server_knobs.js";
 import type Platform from "../platform/index.js";
 import type { CoreMetrics } from "./internal_metrics.js";
 
 import type { Configuration } from "./config.js";
 import type CorePings from "./internal_pings.js";
+import type { InternalPingType } from "./pings/ping_type.js";
 import type { Metric } from "./metrics/metric.js";
 import type { JSONValue } from "./utils.js";
 
 import log, { LoggingLevel } from "./log.js";
+import { DELETION_REQUEST_PING_NAME, PING_INFO_STORAGE } from "./constants.js";
 
 const LOG_TAG = "core.Context";
 
@@ -33,6 +36,12 @@ const LOG_TAG = "core.Context";
 export class Context {
   private static _instance?: Context;
 
+  // All the pings known to Glean, by name.
+  //
+  // Pings are registered as soon as they are constructed, usually at module level.
+  // The registry is not part of the instance, so that it outlives `testUninitialize`.
+  private static pings: Record<string, InternalPingType> = {};
+
   private platform!: Platform;
   private corePings!: CorePings;
   private coreMetrics!: CoreMetrics;
@@ -44,6 +53,7 @@ export class Context {
   private eventsDatabase!: EventsDatabase;
   private pingsDatabase!: PingsDatabase;
   private errorManager!: ErrorManager;
+  private serverKnobs!: ServerKnobs;
   private applicationId!: string;
   private config!: Configuration;
 
@@ -173,6 +183,24 @@ export class Context {
     Context.instance.errorManager = db;
   }
 
+  static get serverKnobs(): ServerKnobs {
+    if (typeof Context.instance.serverKnobs === "undefined") {
+      log(
+        LOG_TAG,
+        [
+          "Attempted to access Context.serverKnobs before it was set. This may cause unexpected behaviour."
+        ],
+        LoggingLevel.Trace
+      );
+    }
+
+    return Context.instance.serverKnobs;
+  }
+
+  static set serverKnobs(knobs: ServerKnobs) {
+    Context.instance.serverKnobs = knobs;
+  }
+
   static get applicationId(): string {
     if (typeof Context.instance.applicationId === "undefined") {
       log(
@@ -291,4 +319,61 @@ export class Context {
 
     Context.instance.supportedMetrics[type] = ctor;
   }
+
+  /**
+   * Registers a ping, so that it can be looked up by name.
+   *
+   * Registering a ping with the same name as an already registered one replaces it.
+   *
+   * @param ping The ping to register.
+   */
+  static registerPing(ping: InternalPingType): void {
+    Context.pings[ping.name] = ping;
+  }
+
+  /**
+   * Gets a registered ping by name.
+   *
+   * @param name The name of the ping.
+   * @returns The ping or `undefined` in case no ping with the given name was registered.
+   */
+  static getPing(name: string): InternalPingType | undefined {
+    return Context.pings[name];
+  }
+
+  /**
+   * Gets all the registered pings.
+   *
+   * @returns The registered pings.
+   */
+  static getPings(): InternalPingType[] {
+    return Object.values(Context.pings);
+  }
+
+  /**
+   * Checks whether or not data may be stored for a given ping.
+   *
+   * Storage names which do not belong to a registered ping, e.g. `glean_client_info`,
+   * are enabled as long as collection is enabled. The exception is `glean_ping_info`,
+   * which is only written to while submitting pings and those check their own state.
+   *
+   * Pings disabled by the server knobs configuration are disabled as well,
+   * except for the `deletion-request` ping.
+   *
+   * @param name The name of the ping or storage.
+   * @param collectionEnabled Whether or not collection is currently enabled.
+   * @returns Whether or not the ping is enabled.
+   */
+  static isPingEnabled(name: string, collectionEnabled: boolean = Context.uploadEnabled): boolean {
+    if (name === PING_INFO_STORAGE) {
+      return true;
+    }
+
+    const ping = Context.getPing(name);
+    const enabled = ping ? ping.isEnabled(collectionEnabled) : collectionEnabled;
+    return enabled && (
+      name === DELETION_REQUEST_PING_NAME ||
+      Context.instance.serverKnobs?.isPingEnabled(name) !== false
+    );
+  }
 }
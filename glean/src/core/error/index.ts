@@ -5,6 +5,7 @@
 import type { ErrorType } from "./error_type.js";
 import type { MetricType } from "../metrics/index.js";
 
+import { INTERNAL_STORAGE, METRICS_PING_NAME } from "../constants.js";
 import log from "../log.js";
 import { InternalCounterMetricType as CounterMetricType } from "../metrics/types/counter.js";
 import { combineIdentifierAndLabel, stripLabel } from "../metrics/types/labeled.js";
@@ -27,6 +28,9 @@ export function createLogTag(metric: MetricType): string {
  *
  * Errors do not adhere to the usual "maximum label" restriction.
  *
+ * Metrics stored in the internal storage are never sent,
+ * so errors for them are recorded in the `metrics` ping instead.
+ *
  * @param metric The metric to record an error for.
  * @param error The error type to record.
  * @returns The metric to record to.
@@ -42,7 +46,9 @@ export function getErrorMetricForMetric(metric: MetricType, error: ErrorType): C
     category: "glean.error",
     lifetime: "ping",
     // TODO: Also add the metric ping to the list. Depends on Bug 1710838.
-    sendInPings: metric.sendInPings,
+    sendInPings: metric.sendInPings.map((ping) =>
+      ping === INTERNAL_STORAGE ? METRICS_PING_NAME : ping
+    ),
     disabled: false
   });
 }
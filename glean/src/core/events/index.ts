@@ -0,0 +1,115 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Plugin from "../../plugins/index.js";
+import type { PingPayload } from "../pings/ping_payload.js";
+import type { JSONObject } from "../utils.js";
+
+import log, { LoggingLevel } from "../log.js";
+
+const LOG_TAG = "core.Events";
+
+export class CoreEvent<
+  // An array of arguments that the event will provide as context to the plugin action.
+  Context extends unknown[] = unknown[],
+  // The expected type of the action result. To be returned by the plugin.
+  Result = unknown
+> {
+  // The plugin to be triggered every time this event occurs.
+  private plugin?: Plugin<CoreEvent<Context, Result>>;
+
+  constructor(readonly name: string) {}
+
+  get registeredPluginIdentifier(): string | undefined {
+    return this.plugin?.name;
+  }
+
+  /**
+   * Registers a plugin that listens to this event.
+   *
+   * Only one plugin may listen to each event at a time.
+   *
+   * @param plugin The plugin to register.
+   */
+  registerPlugin(plugin: Plugin<CoreEvent<Context, Result>>): void {
+    if (this.plugin) {
+      log(
+        LOG_TAG,
+        [
+          `Attempted to register plugin '${plugin.name}', which listens to the event '${plugin.event}'.`,
+          `That event is already watched by plugin '${this.plugin.name}'.`,
+          `Plugin '${plugin.name}' will be ignored.`
+        ],
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    this.plugin = plugin;
+  }
+
+  /**
+   * Deregisters the currently registered plugin.
+   *
+   * If no plugin is currently registered this is a no-op.
+   */
+  deregisterPlugin(): void {
+    this.plugin = undefined;
+  }
+
+  /**
+   * Triggers this event.
+   *
+   * Will execute the action of the registered plugin, if there is any.
+   *
+   * @param args The arguments to be passed as context to the registered plugin.
+   * @returns The result from the plugin execution or `undefined` in case there is no plugin registered.
+   */
+  trigger(...args: Context): Result | undefined {
+    if (this.plugin) {
+      return this.plugin.action(...args) as Result;
+    }
+  }
+}
+
+/**
+ * A ping payload along with the headers to record it with.
+ *
+ * Plugins which encode the payload, e.g. encrypt it, return it this way to
+ * describe the encoding through the `Content-Type` header. The encoded body
+ * is then expected as a string, under the `payload` key of the payload.
+ */
+export class PayloadWithHeaders {
+  constructor(
+    readonly payload: JSONObject,
+    readonly headers: Record<string, string>
+  ) {}
+}
+
+/**
+ * The result of an action listening to the `afterPingCollection` event.
+ *
+ * - A JSON object, to be recorded instead of the collected payload;
+ * - A `PayloadWithHeaders`, to be recorded instead of the collected payload along with the given headers;
+ * - `null`, to discard the ping;
+ * - A promise of any of the above, in which case the ping is only recorded once it resolves.
+ */
+export type AfterPingCollectionResult =
+  JSONObject | PayloadWithHeaders | null | Promise<JSONObject | PayloadWithHeaders | null>;
+
+/**
+ * Glean internal events.
+ */
+const CoreEvents: {
+  afterPingCollection: CoreEvent<[PingPayload], AfterPingCollectionResult>,
+  [unused: string]: CoreEvent
+} = {
+  // Event that is triggered immediately after a ping is collected and before it is recorded.
+  //
+  //  - Context: The `PingPayload` of the ping that was just collected.
+  //  - Result: The payload to record instead, see `AfterPingCollectionResult`.
+  afterPingCollection: new CoreEvent<[PingPayload], AfterPingCollectionResult>("afterPingCollection")
+};
+
+export default CoreEvents;
@@ -0,0 +1,47 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Plugin from "../../plugins/index.js";
+import type { CoreEvent } from "./index.js";
+
+import CoreEvents from "./index.js";
+import log, { LoggingLevel } from "../log.js";
+
+const LOG_TAG = "core.Events.Utils";
+
+/**
+ * Registers a plugin to the desired Glean event.
+ *
+ * If the plugin is attempting to listen to an unknown event it will be ignored.
+ *
+ * @param plugin The plugin to register.
+ */
+export function registerPluginToEvent<E extends CoreEvent>(plugin: Plugin<E>): void {
+  const eventName = plugin.event;
+  if (eventName in CoreEvents) {
+    const event = CoreEvents[eventName];
+    event.registerPlugin(plugin);
+    return;
+  }
+
+  log(
+    LOG_TAG,
+    [
+      `Attempted to register plugin '${plugin.name}', which listens to the event '${plugin.event}'.`,
+      "That is not a valid Glean event."
+    ],
+    LoggingLevel.Error
+  );
+}
+
+/**
+ * Test-only API
+ *
+ * Deregisters plugins registered to all Glean events.
+ */
+export function testResetEvents(): void {
+  for (const event in CoreEvents) {
+    CoreEvents[event].deregisterPlugin();
+  }
+}
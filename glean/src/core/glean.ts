@@ -4,6 +4,7 @@
 
 import type { ConfigurationInterface } from "./config.js";
 import type Platform from "../platform/index.js";
+import type { RecordedExperiment } from "./metrics/types/experiment.js";
 
 import { CLIENT_INFO_STORAGE, KNOWN_CLIENT_ID } from "./constants.js";
 import { Configuration } from "./config.js";
@@ -11,6 +12,7 @@ import PingUploadManager from "./upload/manager.js";
 import { extractBooleanFromString, isBoolean, isString, sanitizeApplicationId } from "./utils.js";
 import { CoreMetrics } from "./internal_metrics.js";
 import { DatetimeMetric } from "./metrics/types/datetime.js";
+import { InternalExperimentMetricType } from "./metrics/types/experiment.js";
 import CorePings from "./internal_pings.js";
 import { Lifetime } from "./metrics/lifetime.js";
 import { Context } from "./context.js";
@@ -19,7 +21,11 @@ import MetricsDatabase from "./metrics/database.js";
 import EventsDatabase from "./metrics/events_database/index.js";
 import PingsDatabase from "./pings/database.js";
 import ErrorManager from "./error/index.js";
+import ServerKnobs, { isValidServerKnobsConfig, validateServerKnobsConfig } from "./server_knobs.js";
+import RemoteConfig from "./remote_config.js";
+import MetricsPingScheduler from "./metrics_ping_scheduler.js";
 import GleanMetrics from "./glean_metrics.js";
+import { registerPluginToEvent } from "./events/utils.js";
 
 const LOG_TAG = "core.Glean";
 
@@ -65,6 +71,16 @@ const getDebugOptionFromSessionStorage = (option: DebugOptionValue): string | un
 namespace Glean {
   // An instance of the ping uploader.
   export let pingUploader: PingUploadManager;
+  // The fetcher of the remote configuration, only set in case a remote configuration URL is configured.
+  export let remoteConfig: RemoteConfig | undefined;
+  // The scheduler of the metrics ping, only set in case the metrics ping is enabled.
+  export let metricsPingScheduler: MetricsPingScheduler | undefined;
+  // Unregisters the listener following the visibility of the application,
+  // only set in case lifecycle pings are submitted automatically.
+  export let removeVisibilityChangeListener: (() => void) | undefined;
+  // Unregisters the listener flushing batched events whenever the application is hidden,
+  // only set in case events are batched, i.e. `maxEvents` is greater than 1.
+  export let removeEventsFlushListener: (() => void) | undefined;
 
   // Temporary holders for debug values,
   // to be used when these values are set before initialize
@@ -73,6 +89,11 @@ namespace Glean {
   export let preInitLogPings: boolean | undefined;
   export let preInitSourceTags: string[] | undefined;
 
+  // Whether or not this client is outside of the sample of clients sending telemetry.
+  let clientSampledOut = false;
+  // Whether or not the application is currently active, e.g. the page is visible.
+  let clientActive = false;
+
   /**
    * Handles the changing of state from upload disabled to enabled.
    *
@@ -88,10 +109,36 @@ namespace Glean {
   /**
    * Initialize core metrics: client_id, first_run_date, os, etc.
    *
+   * Clients which turn out not to be in the sample of clients sending telemetry
+   * are switched to behave as if upload was disabled.
+   *
    * @param migrateFromLegacy Whether or not to migrate data from legacy storage.
    */
   function initializeCoreMetrics(migrateFromLegacy?: boolean): void {
     Context.coreMetrics.initialize(migrateFromLegacy);
+
+    clientSampledOut = !Context.coreMetrics.isClientSampledIn();
+    if (clientSampledOut) {
+      onClientSampledOut();
+    }
+  }
+
+  /**
+   * Handles clients which are not in the sample of clients sending telemetry.
+   *
+   * These clients behave as if upload was disabled: all pending metrics, events
+   * and queued pings are cleared and nothing else is recorded.
+   *
+   * Contrary to disabling upload, no deletion-request ping is sent and the client_id is kept,
+   * so that changing the sample rate later consistently adds or removes the same clients.
+   */
+  function onClientSampledOut(): void {
+    log(
+      LOG_TAG,
+      "Client is not in the sample of clients sending telemetry. Nothing will be recorded.",
+      LoggingLevel.Info
+    );
+    clearMetrics(true);
   }
 
   /**
@@ -126,12 +173,21 @@ namespace Glean {
    * Clears any pending metrics and pings.
    *
    * This function is only supposed to be called when telemetry is disabled.
+   *
+   * @param keepClientId Whether or not to keep the current client_id,
+   *        instead of replacing it with the KNOWN_CLIENT_ID.
    */
-  function clearMetrics(): void {
+  function clearMetrics(keepClientId = false): void {
+    // Data belonging to pings which do not follow collection is kept.
+    const keepPings = Context.getPings()
+      .filter((ping) => !ping.followsCollectionEnabled)
+      .map((ping) => ping.name);
+
     // Clear enqueued upload jobs and clear pending pings queue.
     //
-    // The only job that will still be sent is the deletion-request ping.
-    pingUploader.clearPendingPingsQueue();
+    // The only jobs that will still be sent are the deletion-request ping
+    // and the pings which do not follow collection.
+    pingUploader.clearPendingPingsQueue(keepPings);
 
     // There is only one metric that we want to survive after clearing all
     // metrics: first_run_date. Here, we store its value
@@ -152,17 +208,24 @@ namespace Glean {
       firstRunDate = new Date();
     }
 
+    const clientId = keepClientId
+      ? Context.metricsDatabase.getMetric<string>(CLIENT_INFO_STORAGE, Context.coreMetrics.clientId)
+      : undefined;
+
     // Clear the databases.
-    Context.eventsDatabase.clearAll();
-    Context.metricsDatabase.clearAll();
-    Context.pingsDatabase.clearAll();
+    //
+    // Pending deletion-request pings are kept, they are only deleted
+    // once the upload manager gets a final response for them.
+    Context.eventsDatabase.clearAll(keepPings);
+    Context.metricsDatabase.clearAll(keepPings);
+    Context.pingsDatabase.clearPendingPings(keepPings);
 
     // We need to briefly set upload_enabled to true here so that `set`
     // is not a no-op.
     //
     // This is safe.
     //
-    // `clearMetrics` is either called on `initialize` or `setUploadEnabled`.
+    // `clearMetrics` is either called on `initialize` or `setCollectionEnabled`.
     // Both are dispatched tasks, which means that any other dispatched task
     // called after them will only be executed after they are done.
     // Since all external API calls are dispatched, it is not possible
@@ -172,7 +235,7 @@ namespace Glean {
     // Store a "dummy" KNOWN_CLIENT_ID in the client_id metric. This will
     // make it easier to detect if pings were unintentionally sent after
     // uploading is disabled.
-    Context.coreMetrics.clientId.set(KNOWN_CLIENT_ID);
+    Context.coreMetrics.clientId.set(clientId ?? KNOWN_CLIENT_ID);
 
     // Restore the first_run_date.
     Context.coreMetrics.firstRunDate.set(firstRunDate);
@@ -265,6 +328,7 @@ namespace Glean {
 
     Context.coreMetrics = new CoreMetrics();
     Context.corePings = new CorePings();
+    clientSampledOut = false;
 
     Context.applicationId = sanitizeApplicationId(applicationId);
 
@@ -282,13 +346,40 @@ namespace Glean {
     Context.eventsDatabase = new EventsDatabase();
     Context.pingsDatabase = new PingsDatabase();
     Context.errorManager = new ErrorManager();
+    Context.serverKnobs = new ServerKnobs();
+
+    // Apply the cached remote configuration before anything is recorded,
+    // fetching the latest one happens asynchronously and does not block initialization.
+    remoteConfig = undefined;
+    if (Context.config.remoteConfigUrl) {
+      remoteConfig = new RemoteConfig(
+        Context.config.remoteConfigUrl,
+        Context.config.remoteConfigRefreshInterval
+      );
+      remoteConfig.start();
+    }
 
     pingUploader = new PingUploadManager(Context.config, Context.pingsDatabase);
 
+    // Register the plugins before anything is collected,
+    // initializing the events database may already submit a ping.
+    if (config?.plugins) {
+      for (const plugin of config.plugins) {
+        registerPluginToEvent(plugin);
+      }
+    }
+
     Context.initialized = true;
 
     Context.uploadEnabled = uploadEnabled;
 
+    // Drop data left over from previous runs for pings which are disabled.
+    for (const ping of Context.getPings()) {
+      if (!ping.enabled) {
+        ping.clearPendingData();
+      }
+    }
+
     // Initialize the events database.
     //
     // It's important this happens _after_ the upload state is set,
@@ -299,6 +390,14 @@ namespace Glean {
     // so it also needs to happen before application lifetime metrics are cleared.
     Context.eventsDatabase.initialize();
 
+    // This may submit an overdue 'metrics' ping,
+    // so it also needs to happen before application lifetime metrics are cleared.
+    metricsPingScheduler = undefined;
+    if (Context.config.enableMetricsPing) {
+      metricsPingScheduler = new MetricsPingScheduler(Context.config.metricsPingScheduleHour);
+      metricsPingScheduler.start();
+    }
+
     // The upload enabled flag may have changed since the last run, for
     // example by the changing of a config file.
     if (uploadEnabled) {
@@ -353,15 +452,46 @@ namespace Glean {
     // so we need to know that state **before** scanning the pending pings
     // to ensure we don't enqueue pings before their files are deleted.
     Context.pingsDatabase.scanPendingPings();
+
+    // Follow the visibility of the application, on platforms which are able to tell it.
+    clientActive = false;
+    removeVisibilityChangeListener?.();
+    removeVisibilityChangeListener = undefined;
+    const { lifecycle } = Context.platform;
+    if (lifecycle && Context.config.enableAutoLifecyclePings) {
+      removeVisibilityChangeListener = lifecycle.onVisibilityChange(
+        (hidden) => hidden ? handleClientInactive() : handleClientActive()
+      );
+      if (!lifecycle.isHidden()) {
+        handleClientActive();
+      }
+    }
+
+    // Flush batched events whenever the application is hidden, it may never become visible again.
+    // This does not depend on `enableAutoLifecyclePings`, batched events would be lost otherwise.
+    removeEventsFlushListener?.();
+    removeEventsFlushListener = undefined;
+    if (lifecycle && Context.config.maxEvents > 1) {
+      removeEventsFlushListener = lifecycle.onVisibilityChange((hidden) => {
+        if (hidden) {
+          flushBatchedEvents();
+        }
+      });
+      if (lifecycle.isHidden()) {
+        flushBatchedEvents();
+      }
+    }
   }
 
   /**
-   * Sets whether upload is enabled or not.
+   * Sets whether collection is enabled or not.
    *
-   * When uploading is disabled, metrics aren't recorded at all and no
-   * data is uploaded.
+   * When collection is disabled, metrics aren't recorded at all and no
+   * data is uploaded, except for pings which do not follow collection.
+   * Those keep recording and submitting on their own `enabled` flag.
    *
-   * When disabling, all pending metrics, events and queued pings are cleared.
+   * When disabling, all pending metrics, events and queued pings are cleared,
+   * except for the data of pings which do not follow collection.
    *
    * When enabling, the core Glean metrics are recreated.
    *
@@ -369,7 +499,7 @@ namespace Glean {
    *
    * @param flag When true, enable metric collection.
    */
-  export function setUploadEnabled(flag: boolean): void {
+  export function setCollectionEnabled(flag: boolean): void {
     if (!Context.initialized) {
       log(
         LOG_TAG,
@@ -392,6 +522,16 @@ namespace Glean {
       return;
     }
 
+    if (clientSampledOut) {
+      // Enabling upload does not bring clients outside of the sample back,
+      // but disabling it must still clear the client_id and send a deletion-request ping.
+      if (!flag) {
+        clientSampledOut = false;
+        onUploadDisabled(false);
+      }
+      return;
+    }
+
     if (Context.uploadEnabled !== flag) {
       if (flag) {
         onUploadEnabled();
@@ -402,6 +542,123 @@ namespace Glean {
     }
   }
 
+  /**
+   * Sets whether upload is enabled or not.
+   *
+   * This is an alias of `setCollectionEnabled`.
+   *
+   * @param flag When true, enable metric collection.
+   */
+  export function setUploadEnabled(flag: boolean): void {
+    setCollectionEnabled(flag);
+  }
+
+
+  /**
+   * Enables or disables a given ping at runtime, regardless of collection.
+   *
+   * Submitting a disabled ping is a no-op and metrics are not recorded to it.
+   * When disabling, data pending to be sent in the ping is dropped.
+   *
+   * @param name The name of the ping.
+   * @param enabled Whether or not the ping should be enabled.
+   */
+  export function setPingEnabled(name: string, enabled: boolean): void {
+    if (!isBoolean(enabled)) {
+      log(
+        LOG_TAG,
+        "Unable to change the ping enabled state, new value must be a boolean. Ignoring.",
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    const ping = Context.getPing(name);
+    if (!ping) {
+      log(
+        LOG_TAG,
+        `Unable to change the enabled state of the unknown "${name}" ping. Ignoring.`,
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    ping.setEnabled(enabled);
+  }
+
+  /**
+   * Signals that the application became active, e.g. the page became visible.
+   *
+   * Submits the `baseline` ping with the `active` reason and starts measuring
+   * the duration of the foreground session.
+   *
+   * When the `enableAutoLifecyclePings` configuration option is set, this is called automatically
+   * on platforms which are able to tell the visibility of the application.
+   * Applications which define activity themselves may also call it directly.
+   * Calling it while the application is already active is a no-op.
+   */
+  export function handleClientActive(): void {
+    if (!Context.initialized) {
+      log(LOG_TAG, "Glean must be initialized before handling client activity.", LoggingLevel.Info);
+      return;
+    }
+
+    if (clientActive) {
+      return;
+    }
+
+    clientActive = true;
+    Context.corePings.baseline.submit("active");
+    Context.coreMetrics.baselineDuration.start();
+  }
+
+  /**
+   * Signals that the application became inactive, e.g. the page was hidden.
+   *
+   * Stops measuring the duration of the foreground session
+   * and submits the `baseline` ping with the `inactive` reason.
+   * On platforms which are not able to tell the visibility of the application,
+   * the `events` ping is submitted with the `inactive` reason as well, in case events are batched.
+   *
+   * When the `enableAutoLifecyclePings` configuration option is set, this is called automatically
+   * on platforms which are able to tell the visibility of the application.
+   * Applications which define activity themselves may also call it directly.
+   * Calling it while the application is already inactive is a no-op.
+   */
+  export function handleClientInactive(): void {
+    if (!Context.initialized) {
+      log(LOG_TAG, "Glean must be initialized before handling client activity.", LoggingLevel.Info);
+      return;
+    }
+
+    if (!clientActive) {
+      return;
+    }
+
+    clientActive = false;
+    Context.coreMetrics.baselineDuration.stop();
+    Context.corePings.baseline.submit("inactive");
+
+    // Batched events are flushed by their own listener on platforms which are able to tell
+    // the visibility of the application, otherwise they are flushed here.
+    if (!removeEventsFlushListener) {
+      flushBatchedEvents();
+    }
+  }
+
+  /**
+   * Submits the `events` ping with the `inactive` reason, in case events are batched.
+   *
+   * The application may never become active again. While the application is hidden,
+   * pings are uploaded through the beacon uploader if possible.
+   */
+  function flushBatchedEvents(): void {
+    // With a `maxEvents` of 1, events are already sent as soon as they are recorded.
+    if (Context.config.maxEvents > 1) {
+      Context.corePings.events.submit("inactive");
+    }
+  }
+
   /**
    * Sets the `logPings` debug option.
    *
@@ -455,6 +712,105 @@ namespace Glean {
     }
   }
 
+  /**
+   * Applies a server knobs configuration.
+   *
+   * Server knobs allow enabling or disabling metrics, whole metric categories and pings at runtime,
+   * overriding the build time configuration. The configuration is persisted
+   * and merged with any previously applied configuration.
+   * The remote configuration, if any, takes precedence over it.
+   *
+   * @param json The configuration as a JSON string, e.g.
+   *        `{ "metrics_enabled": { "category.name": false }, "pings_enabled": { "ping": false } }`.
+   */
+  export function applyServerKnobsConfig(json: string): void {
+    if (!Context.initialized) {
+      log(
+        LOG_TAG,
+        "Unable to apply server knobs configuration, Glean must be initialized first. Ignoring.",
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    let config: unknown;
+    try {
+      config = JSON.parse(json);
+    } catch (e) {
+      log(LOG_TAG, ["Unable to parse server knobs configuration. Ignoring.", e], LoggingLevel.Error);
+      return;
+    }
+
+    if (!isValidServerKnobsConfig(config)) {
+      log(
+        LOG_TAG,
+        `Invalid server knobs configuration: ${validateServerKnobsConfig(config) ?? ""} Ignoring.`,
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    Context.serverKnobs.apply(config);
+  }
+
+  /**
+   * Indicates that an experiment is running.
+   *
+   * Glean will add an experiment annotation that is sent with all pings,
+   * until the experiment is set inactive or the application is restarted.
+   *
+   * @param experimentId The id of the active experiment (maximum 100 characters).
+   * @param branch The experiment branch (maximum 100 characters).
+   * @param extra Optional metadata to output with the ping
+   *        (maximum 20 entries, keys and values of maximum 100 characters).
+   */
+  export function setExperimentActive(
+    experimentId: string,
+    branch: string,
+    extra?: Record<string, string>
+  ): void {
+    if (!Context.initialized) {
+      log(
+        LOG_TAG,
+        "Unable to set experiment active, Glean must be initialized first. Ignoring.",
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    new InternalExperimentMetricType(experimentId).setActive(branch, extra);
+  }
+
+  /**
+   * Indicates that an experiment is no longer running.
+   *
+   * @param experimentId The id of the experiment to deactivate.
+   */
+  export function setExperimentInactive(experimentId: string): void {
+    if (!Context.initialized) {
+      log(
+        LOG_TAG,
+        "Unable to set experiment inactive, Glean must be initialized first. Ignoring.",
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    new InternalExperimentMetricType(experimentId).setInactive();
+  }
+
+  /**
+   * Test-only API
+   *
+   * Gets the data recorded for an active experiment.
+   *
+   * @param experimentId The id of the experiment.
+   * @returns The experiment branch and extras or `undefined` if the experiment is not active.
+   */
+  export function testGetExperimentData(experimentId: string): RecordedExperiment | undefined {
+    return new InternalExperimentMetricType(experimentId).testGetValue();
+  }
+
   /**
    * Sets the current environment.
    *
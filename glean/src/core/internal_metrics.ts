@@ -2,13 +2,25 @@
  * License, v. 2.0. If a copy of the MPL was not distributed with this
  * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
 
-import { KNOWN_CLIENT_ID, CLIENT_INFO_STORAGE } from "./constants.js";
+import {
+  KNOWN_CLIENT_ID,
+  CLIENT_INFO_STORAGE,
+  ALL_PINGS_STORAGE,
+  BASELINE_PING_NAME
+} from "./constants.js";
 import { InternalUUIDMetricType as UUIDMetricType } from "./metrics/types/uuid.js";
 import { InternalDatetimeMetricType as DatetimeMetricType } from "./metrics/types/datetime.js";
 import { InternalStringMetricType as StringMetricType } from "./metrics/types/string.js";
+import { InternalTimespanMetricType as TimespanMetricType } from "./metrics/types/timespan.js";
 import { createMetric } from "./metrics/utils.js";
 import TimeUnit from "./metrics/time_unit.js";
-import { generateUUIDv4, isWindowObjectUnavailable } from "./utils.js";
+import {
+  generateUUIDv4,
+  hashToUnitInterval,
+  isString,
+  isUndefined,
+  isWindowObjectUnavailable
+} from "./utils.js";
 import { Lifetime } from "./metrics/lifetime.js";
 import log, { LoggingLevel } from "./log.js";
 import { Context } from "./context.js";
@@ -33,6 +45,13 @@ export class CoreMetrics {
   readonly appBuild: StringMetricType;
   readonly appDisplayVersion: StringMetricType;
   readonly buildDate: DatetimeMetricType;
+  readonly experimentationId: StringMetricType;
+  // The time the application was active for, sent in the `inactive` baseline ping.
+  readonly baselineDuration: TimespanMetricType;
+
+  // Whether or not this client is in the sample of clients which send telemetry,
+  // decided from the client_id on `initialize`.
+  private clientSampledIn = true;
 
   constructor() {
     this.clientId = new UUIDMetricType({
@@ -120,10 +139,31 @@ export class CoreMetrics {
       },
       "second"
     );
+
+    this.experimentationId = new StringMetricType({
+      name: "experimentation_id",
+      category: "glean.client.annotation",
+      sendInPings: [ALL_PINGS_STORAGE],
+      lifetime: Lifetime.Application,
+      disabled: false
+    });
+
+    this.baselineDuration = new TimespanMetricType(
+      {
+        name: "duration",
+        category: "glean.baseline",
+        sendInPings: [BASELINE_PING_NAME],
+        lifetime: Lifetime.Ping,
+        disabled: false
+      },
+      TimeUnit.Second
+    );
   }
 
   initialize(migrateFromLegacyStorage?: boolean): void {
-    if (!Context.testing && isWindowObjectUnavailable()) {
+    // On the web platform, we are unable to store anything if `window` is unavailable
+    // e.g. during server side rendering.
+    if (!Context.testing && Context.platform.name === "web" && isWindowObjectUnavailable()) {
       return;
     }
 
@@ -157,6 +197,46 @@ export class CoreMetrics {
     if (Context.config.buildDate) {
       this.buildDate.set();
     }
+    if (Context.config.experimentationId) {
+      this.experimentationId.set(Context.config.experimentationId);
+    }
+
+    this.clientSampledIn = this.computeClientSampledIn();
+  }
+
+  /**
+   * Checks whether or not this client is in the sample of clients which send telemetry,
+   * according to the `clientSampleRate` configuration option.
+   *
+   * @returns Whether or not the client is in the sample.
+   */
+  isClientSampledIn(): boolean {
+    return this.clientSampledIn;
+  }
+
+  /**
+   * Decides whether or not this client is in the sample of clients which send telemetry.
+   *
+   * The client_id is hashed into a stable bucket between 0 and 1
+   * and the client is in the sample in case the bucket is lower than the sample rate.
+   * Raising the rate only ever adds clients to the sample and lowering it only ever removes them.
+   *
+   * @returns Whether or not the client is in the sample.
+   */
+  private computeClientSampledIn(): boolean {
+    const rate = Context.config.clientSampleRate;
+    if (isUndefined(rate) || rate >= 1) {
+      return true;
+    }
+
+    const clientId = Context.metricsDatabase.getMetric<string>(CLIENT_INFO_STORAGE, this.clientId);
+    if (!isString(clientId)) {
+      // The client_id may still be being migrated from the legacy storage,
+      // without it there is nothing to sample on.
+      return true;
+    }
+
+    return hashToUnitInterval(clientId) < rate;
   }
 
   /**
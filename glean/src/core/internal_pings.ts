@@ -2,7 +2,12 @@
  * License, v. 2.0. If a copy of the MPL was not distributed with this
  * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
 
-import { DELETION_REQUEST_PING_NAME, EVENTS_PING_NAME } from "./constants.js";
+import {
+  BASELINE_PING_NAME,
+  DELETION_REQUEST_PING_NAME,
+  EVENTS_PING_NAME,
+  METRICS_PING_NAME
+} from "./constants.js";
 import { InternalPingType as PingType} from "./pings/ping_type.js";
 
 /**
@@ -18,6 +23,11 @@ class CorePings {
   readonly deletionRequest: PingType;
   // The events ping's purpose is to transport event metric information.
   readonly events: PingType;
+  // The metrics ping's purpose is to transport metrics which are not sent in other pings,
+  // it is submitted once per calendar day when the metrics ping scheduler is enabled.
+  readonly metrics: PingType;
+  // The baseline ping is submitted whenever the application becomes active or inactive.
+  readonly baseline: PingType;
 
   constructor() {
     this.deletionRequest = new PingType({
@@ -31,7 +41,21 @@ class CorePings {
       name: EVENTS_PING_NAME,
       includeClientId: true,
       sendIfEmpty: false,
-      reasonCodes: ["startup", "max_capacity"]
+      reasonCodes: ["startup", "max_capacity", "max_age", "inactive"]
+    });
+
+    this.metrics = new PingType({
+      name: METRICS_PING_NAME,
+      includeClientId: true,
+      sendIfEmpty: false,
+      reasonCodes: ["overdue", "reschedule", "today"]
+    });
+
+    this.baseline = new PingType({
+      name: BASELINE_PING_NAME,
+      includeClientId: true,
+      sendIfEmpty: true,
+      reasonCodes: ["active", "inactive"]
     });
   }
 }
@@ -0,0 +1,24 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+interface Lifecycle {
+  /**
+   * Checks whether or not the application is currently hidden or being closed.
+   *
+   * @returns Whether or not the application is hidden.
+   */
+  isHidden(): boolean;
+
+  /**
+   * Registers a callback to be called whenever the application is hidden or shown again.
+   *
+   * The callback is only called when the state actually changes.
+   *
+   * @param callback The function to call, with whether or not the application is now hidden.
+   * @returns A function which unregisters the callback.
+   */
+  onVisibilityChange(callback: (hidden: boolean) => void): () => void;
+}
+
+export default Lifecycle;
@@ -12,6 +12,7 @@ import { isObject, isUndefined } from "../utils.js";
 import { Lifetime } from "./lifetime.js";
 import log, { LoggingLevel } from "../log.js";
 import { Context } from "../context.js";
+import { PING_INFO_STORAGE } from "../constants.js";
 
 /// CONSTANTS ///
 const METRICS_DATABASE_LOG_TAG = "core.Metrics.Database";
@@ -116,7 +117,7 @@ class MetricsDatabase {
     metric: MetricType,
     transformFn: (v?: JSONValue) => Metric<JSONValue, JSONValue>
   ): void {
-    if (metric.disabled) {
+    if (metric.isDisabled()) {
       return;
     }
 
@@ -125,6 +126,11 @@ class MetricsDatabase {
     const storageKey = metric.identifier();
 
     for (const ping of metric.sendInPings) {
+      // Data is never stored for disabled pings.
+      if (!Context.isPingEnabled(ping)) {
+        continue;
+      }
+
       const finalTransformFn = (v?: JSONValue): JSONValue => transformFn(v).get();
       store.update([ping, metric.type, storageKey], finalTransformFn);
     }
@@ -258,6 +264,39 @@ class MetricsDatabase {
     }
   }
 
+  /**
+   * Gets all of the persisted metrics of a given type and lifetime related to a given ping.
+   *
+   * Contrary to `getPingMetrics`, metrics are returned in their internal representation
+   * and labeled or reserved metrics get no special treatment.
+   *
+   * @param ping The name of the ping to retrieve.
+   * @param lifetime The lifetime of the metrics to retrieve.
+   * @param metricType The type of the metrics to retrieve.
+   * @returns An object containing all the metrics of the given type recorded to the given ping,
+   *          `undefined` in case there are none.
+   */
+  getPingMetricsOfType(
+    ping: string,
+    lifetime: Lifetime,
+    metricType: string
+  ): Record<string, JSONValue> | undefined {
+    return this.getCorrectedPingData(ping, lifetime)[metricType];
+  }
+
+  /**
+   * Deletes the persisted value of a given metric from all the pings it is sent in.
+   *
+   * @param metric The metric to delete.
+   */
+  delete(metric: MetricType): void {
+    const store = this.chooseStore(metric.lifetime);
+    const storageKey = metric.identifier();
+    for (const ping of metric.sendInPings) {
+      store.delete([ping, metric.type, storageKey]);
+    }
+  }
+
   /**
    * Clears currently persisted data for a given lifetime.
    *
@@ -270,16 +309,77 @@ class MetricsDatabase {
     store.delete(storageIndex);
   }
 
+  /**
+   * Clears the persisted data of a given ping, for all lifetimes.
+   *
+   * @param ping The ping to clear data from.
+   */
+  clearPing(ping: string): void {
+    for (const store of [this.userStore, this.pingStore, this.appStore]) {
+      if (!isUndefined(store.get([ping]))) {
+        store.delete([ping]);
+      }
+    }
+  }
+
   /**
    * Clears all persisted metrics data.
+   *
+   * @param keepPings The pings whose data, including their sequence numbers and start times,
+   *        must be kept. When omitted, data from all pings is cleared.
    */
-  clearAll(): void {
-    this.userStore.delete([]);
-    this.pingStore.delete([]);
-    this.appStore.delete([]);
+  clearAll(keepPings: string[] = []): void {
+    for (const store of [this.userStore, this.pingStore, this.appStore]) {
+      if (keepPings.length === 0) {
+        store.delete([]);
+        continue;
+      }
+
+      const data = store.get();
+      if (!isObject(data)) {
+        continue;
+      }
+
+      for (const ping in data) {
+        if (keepPings.includes(ping)) {
+          continue;
+        }
+
+        if (ping === PING_INFO_STORAGE && isObject(data[ping])) {
+          this.clearPingInfo(store, data[ping] as JSONObject, keepPings);
+          continue;
+        }
+
+        store.delete([ping]);
+      }
+    }
   }
 
   /// PRIVATE ///
+  /**
+   * Clears the ping info storage, except for the data of the given pings.
+   *
+   * @param store The store to clear the ping info storage of.
+   * @param pingInfo The data currently in the ping info storage.
+   * @param keepPings The pings whose data must be kept.
+   */
+  private clearPingInfo(store: Store, pingInfo: JSONObject, keepPings: string[]): void {
+    for (const metricType in pingInfo) {
+      const metrics = pingInfo[metricType];
+      if (!isObject(metrics)) {
+        continue;
+      }
+
+      for (const metricIdentifier in metrics) {
+        // Ping info metrics are named `<ping name>#<data>`.
+        const ping = metricIdentifier.split("#")[0];
+        if (!keepPings.includes(ping)) {
+          store.delete([PING_INFO_STORAGE, metricType, metricIdentifier]);
+        }
+      }
+    }
+  }
+
   /**
    * Returns the store instance for a given lifetime.
    *
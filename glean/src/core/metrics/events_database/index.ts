@@ -10,13 +10,16 @@ import { Context } from "../../context.js";
 import {
   EVENTS_PING_NAME,
   GLEAN_EXECUTION_COUNTER_EXTRA_KEY,
-  GLEAN_REFERENCE_TIME_EXTRA_KEY
+  GLEAN_REFERENCE_TIME_EXTRA_KEY,
+  PING_INFO_STORAGE
 } from "../../constants.js";
 import { ErrorType } from "../../error/error_type.js";
 import { Lifetime } from "../lifetime.js";
 import log, { LoggingLevel } from "../../log.js";
 import { InternalEventMetricType as EventMetricType } from "../types/event.js";
 import { InternalCounterMetricType as CounterMetricType } from "../types/counter.js";
+import { DatetimeMetric, InternalDatetimeMetricType as DatetimeMetricType } from "../types/datetime.js";
+import TimeUnit from "../time_unit.js";
 import { RecordedEvent } from "./recorded_event.js";
 import { generateReservedMetricIdentifiers } from "../database.js";
 import { isString, isUndefined } from "../../utils.js";
@@ -155,9 +158,27 @@ export function removeTrailingRestartedEvents(sortedEvents: RecordedEvent[]): Re
 export class EventsDatabase {
   private eventsStore: Store;
   private initialized = false;
+  // The id of the timeout which submits the events ping once its oldest event
+  // reaches the configured maximum age, if any is scheduled.
+  private maxAgeTimeout?: number;
+  // The time the oldest event of the events ping was recorded at.
+  //
+  // Event timestamps are not reliable across application runs, so this is stored separately
+  // for events left over from previous runs to still be submitted once they get too old.
+  private oldestEventTime: DatetimeMetricType;
 
   constructor() {
     this.eventsStore = new Context.platform.Storage("events");
+    this.oldestEventTime = new DatetimeMetricType(
+      {
+        category: "",
+        name: `${EVENTS_PING_NAME}#oldest_event`,
+        sendInPings: [PING_INFO_STORAGE],
+        lifetime: Lifetime.User,
+        disabled: false
+      },
+      TimeUnit.Millisecond
+    );
   }
 
   /// PUBLIC ///
@@ -175,6 +196,11 @@ export class EventsDatabase {
       }
     }
 
+    // Leftover events from previous runs which are already too old are submitted right away.
+    if (this.getAvailableStoreNames().includes(EVENTS_PING_NAME)) {
+      this.scheduleMaxAgeSubmission();
+    }
+
     // Increment the execution counter for known stores.
     // !IMPORTANT! This must happen before any event is recorded for this run.
     getExecutionCounterMetric(storeNames).add(1);
@@ -184,11 +210,16 @@ export class EventsDatabase {
   }
 
   record(metric: EventMetricType, value: RecordedEvent): void {
-    if (metric.disabled) {
+    if (metric.isDisabled()) {
       return;
     }
 
     for (const ping of metric.sendInPings) {
+      // Events are never stored for disabled pings.
+      if (!Context.isPingEnabled(ping)) {
+        continue;
+      }
+
       const executionCounter = getExecutionCounterMetric([ping]);
 
       let currentExecutionCount = (
@@ -217,8 +248,16 @@ export class EventsDatabase {
       };
 
       this.eventsStore.update([ping], transformFn);
-      if (ping === EVENTS_PING_NAME && numEvents >= Context.config.maxEvents) {
-        Context.corePings.events.submit("max_capacity");
+      if (ping === EVENTS_PING_NAME) {
+        if (numEvents >= Context.config.maxEvents) {
+          Context.corePings.events.submit("max_capacity");
+        } else if (Context.platform.lifecycle?.isHidden()) {
+          // The application may be closed at any time while hidden,
+          // without it ever becoming hidden again.
+          Context.corePings.events.submit("inactive");
+        } else {
+          this.scheduleMaxAgeSubmission();
+        }
       }
     }
   }
@@ -242,6 +281,9 @@ export class EventsDatabase {
 
     if (clearPingLifetimeData && Object.keys(pingData).length > 0) {
       this.eventsStore.delete([ping]);
+      if (ping === EVENTS_PING_NAME) {
+        this.resetMaxAge();
+      }
     }
 
     if (pingData.length === 0) {
@@ -254,11 +296,122 @@ export class EventsDatabase {
     }
   }
 
-  clearAll(): void {
-    this.eventsStore.delete([]);
+  /**
+   * Clears the persisted events of a given ping.
+   *
+   * @param ping The ping to clear events from.
+   */
+  clearPing(ping: string): void {
+    if (!isUndefined(this.eventsStore.get([ping]))) {
+      this.eventsStore.delete([ping]);
+    }
+
+    if (ping === EVENTS_PING_NAME) {
+      this.resetMaxAge();
+    }
+  }
+
+  /**
+   * Clears all persisted events.
+   *
+   * @param keepPings The pings whose events must be kept.
+   *        When omitted, events from all pings are cleared.
+   */
+  clearAll(keepPings: string[] = []): void {
+    if (!keepPings.includes(EVENTS_PING_NAME)) {
+      this.resetMaxAge();
+    }
+
+    if (keepPings.length === 0) {
+      this.eventsStore.delete([]);
+      return;
+    }
+
+    for (const ping of this.getAvailableStoreNames()) {
+      if (!keepPings.includes(ping)) {
+        this.eventsStore.delete([ping]);
+      }
+    }
+  }
+
+  /**
+   * Cancels the scheduled submission of the events ping due to the age of its oldest event.
+   */
+  cancelMaxAgeSubmission(): void {
+    if (!isUndefined(this.maxAgeTimeout)) {
+      Context.platform.timer.clearTimeout(this.maxAgeTimeout);
+      this.maxAgeTimeout = undefined;
+    }
   }
 
   /// PRIVATE ///
+  /**
+   * Schedules the submission of the events ping for when the oldest stored event
+   * reaches the configured maximum age. In case it already did, the ping is submitted right away.
+   *
+   * This is a no-op in case no maximum age is configured or a submission is already scheduled,
+   * since the latter was scheduled for an older event.
+   */
+  private scheduleMaxAgeSubmission(): void {
+    const maxEventsAge = Context.config.maxEventsAge;
+    if (isUndefined(maxEventsAge) || !isUndefined(this.maxAgeTimeout)) {
+      return;
+    }
+
+    let oldestEventTime = this.getOldestEventTime();
+    if (isUndefined(oldestEventTime)) {
+      // This is the first event since the ping was last collected.
+      oldestEventTime = new Date();
+      this.oldestEventTime.set(oldestEventTime);
+    }
+
+    const delay = oldestEventTime.getTime() + maxEventsAge * 1000 - Date.now();
+    if (delay <= 0) {
+      Context.corePings.events.submit("max_age");
+      return;
+    }
+
+    this.maxAgeTimeout = Context.platform.timer.setTimeout(() => {
+      this.maxAgeTimeout = undefined;
+      Context.corePings.events.submit("max_age");
+    }, delay);
+  }
+
+  /**
+   * Gets the time the oldest event of the events ping was recorded at.
+   *
+   * @returns The time or `undefined` in case there are no events or the stored value is invalid.
+   */
+  private getOldestEventTime(): Date | undefined {
+    const data = Context.metricsDatabase.getMetric(PING_INFO_STORAGE, this.oldestEventTime);
+    if (isUndefined(data)) {
+      return;
+    }
+
+    try {
+      return new DatetimeMetric(data).date;
+    } catch {
+      log(
+        EVENT_DATABASE_LOG_TAG,
+        `Unexpected value found for the time of the oldest event of the ${EVENTS_PING_NAME} ping. Ignoring.`,
+        LoggingLevel.Warn
+      );
+    }
+  }
+
+  /**
+   * Cancels the scheduled submission of the events ping and forgets the time of its oldest event.
+   *
+   * This happens whenever the events of the ping are cleared, e.g. when it is collected.
+   * The next recorded event schedules the submission again.
+   */
+  private resetMaxAge(): void {
+    this.cancelMaxAgeSubmission();
+    if (!isUndefined(Context.metricsDatabase.getMetric(PING_INFO_STORAGE, this.oldestEventTime))) {
+      Context.metricsDatabase.delete(this.oldestEventTime);
+    }
+  }
+
   private getAvailableStoreNames(): string[] {
     const data = this.eventsStore.get([]);
     if (isUndefined(data)) {
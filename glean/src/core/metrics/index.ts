@@ -107,15 +107,36 @@ export abstract class MetricType implements CommonMetricData {
   /**
    * Verify whether or not this metric instance should be recorded.
    *
-   * @param uploadEnabled Whether or not global upload is enabled or
+   * A metric is recorded as long as at least one of the pings it is sent in is enabled.
+   * Pings which follow collection, as well as most internal storages, are only enabled
+   * while collection is enabled.
+   *
+   * @param uploadEnabled Whether or not global upload, i.e. collection, is enabled or
    *        disabled.
    * @returns Whether or not this metric instance should be recorded.
    */
   shouldRecord(uploadEnabled: boolean): boolean {
-    return uploadEnabled && !this.disabled;
+    if (this.isDisabled()) {
+      return false;
+    }
+
+    return this.sendInPings.some((name) => Context.isPingEnabled(name, uploadEnabled));
+  }
+
+  /**
+   * Verify whether or not this metric is disabled.
+   *
+   * The server knobs configuration, if any, takes precedence
+   * over the `disabled` property given at build time.
+   *
+   * @returns Whether or not this metric is disabled.
+   */
+  isDisabled(): boolean {
+    const enabled = Context.serverKnobs?.isMetricEnabled(this);
+    return isUndefined(enabled) ? this.disabled : !enabled;
   }
 
-  testGetNumRecordedErrors(errorType: string, ping: string = this.sendInPings[0]): number {
+  testGetNumRecordedErrors(errorType: string, ping?: string): number {
     if (testOnlyCheck("testGetNumRecordedErrors")) {
       return Context.errorManager.testGetNumRecordedErrors(this, errorType as ErrorType, ping);
     }
@@ -9,17 +9,31 @@ import { RecordedEvent } from "../events_database/recorded_event.js";
 import { MetricType } from "../index.js";
 import {
   getMonotonicNow,
+  hashToUnitInterval,
+  isNumber,
   isString,
+  isUndefined,
   testOnlyCheck,
   truncateStringAtBoundaryWithError
 } from "../../utils.js";
 import { Context } from "../../context.js";
 import { ErrorType } from "../../error/error_type.js";
 import { MetricValidationError } from "../metric.js";
+import { CLIENT_INFO_STORAGE, GLEAN_SAMPLING_RATE_EXTRA_KEY } from "../../constants.js";
+import log, { LoggingLevel } from "../../log.js";
 
 const LOG_TAG = "core.metrics.EventMetricType";
 const MAX_LENGTH_EXTRA_KEY_VALUE = 100;
 
+/**
+ * The metadata of an event metric.
+ */
+export interface EventMetricData extends CommonMetricData {
+  // The fraction of clients, between 0 and 1, which record this event.
+  // Defaults to recording the event on all clients.
+  readonly samplingRate?: number;
+}
+
 /**
  * Base implementation of the event metric type,
  * meant only for Glean internal use.
@@ -31,10 +45,71 @@ export class InternalEventMetricType<
   SpecificExtraMap extends ExtraMap = ExtraMap
 > extends MetricType {
   private allowedExtraKeys?: string[];
+  private samplingRate?: number;
 
-  constructor(meta: CommonMetricData, allowedExtraKeys?: string[]) {
+  constructor(meta: EventMetricData, allowedExtraKeys?: string[]) {
     super("event", meta);
     this.allowedExtraKeys = allowedExtraKeys;
+    if (!isUndefined(meta.samplingRate)) {
+      this.setSamplingRate(meta.samplingRate);
+    }
+  }
+
+  /**
+   * Sets the fraction of clients which record this event.
+   *
+   * @param rate The sampling rate, between 0 and 1.
+   */
+  setSamplingRate(rate: number): void {
+    if (!isNumber(rate) || rate < 0 || rate > 1) {
+      log(
+        LOG_TAG,
+        `Invalid sampling rate for event ${this.baseIdentifier()}: ${JSON.stringify(rate)}. Ignoring.`,
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    this.samplingRate = rate;
+  }
+
+  /**
+   * Gets the fraction of clients which record this event.
+   *
+   * The server knobs configuration, if any, takes precedence
+   * over the sampling rate set on the metric.
+   *
+   * @returns The sampling rate, between 0 and 1.
+   */
+  getSamplingRate(): number {
+    return Context.serverKnobs?.getEventSamplingRate(this) ?? this.samplingRate ?? 1;
+  }
+
+  /**
+   * Decides whether or not the current client is in the sample of clients recording this event.
+   *
+   * The decision is deterministic for each client and event,
+   * so a client either always or never records a given event at a given sampling rate.
+   *
+   * @param rate The sampling rate, between 0 and 1.
+   * @returns Whether or not the client is in the sample.
+   */
+  private isSampledIn(rate: number): boolean {
+    if (rate >= 1) {
+      return true;
+    }
+
+    const clientId = Context.metricsDatabase.getMetric<string>(
+      CLIENT_INFO_STORAGE,
+      Context.coreMetrics.clientId
+    );
+    if (!isString(clientId)) {
+      // Without a client_id there is nothing to sample on, keep the event.
+      return true;
+    }
+
+    // Include the event identifier, so that each event samples a different subset of clients.
+    return hashToUnitInterval(`${clientId}:${this.baseIdentifier()}`) < rate;
   }
 
   /**
@@ -49,6 +124,11 @@ export class InternalEventMetricType<
       return;
     }
 
+    const samplingRate = this.getSamplingRate();
+    if (!this.isSampledIn(samplingRate)) {
+      return;
+    }
+
     try {
       // Create metric here, in order to run the validations and throw in case input in invalid.
       const metric = new RecordedEvent({
@@ -89,6 +169,10 @@ export class InternalEventMetricType<
         extra: truncatedExtra
       });
 
+      if (samplingRate < 1) {
+        metric.addExtra(GLEAN_SAMPLING_RATE_EXTRA_KEY, samplingRate);
+      }
+
       Context.eventsDatabase.record(this, metric);
     } catch (e) {
       if (e instanceof MetricValidationError) {
@@ -122,7 +206,7 @@ export class InternalEventMetricType<
 export default class EventMetricType<SpecificExtraMap extends ExtraMap = ExtraMap> {
   #inner: InternalEventMetricType;
 
-  constructor(meta: CommonMetricData, allowedExtraKeys?: string[]) {
+  constructor(meta: EventMetricData, allowedExtraKeys?: string[]) {
     this.#inner = new InternalEventMetricType<SpecificExtraMap>(meta, allowedExtraKeys);
   }
 
@@ -136,6 +220,20 @@ export default class EventMetricType<SpecificExtraMap extends ExtraMap = ExtraMa
     this.#inner.record(extra);
   }
 
+  /**
+   * Sets the fraction of clients which record this event,
+   * overriding the sampling rate given at build time.
+   *
+   * Whether or not a client is in the sample is decided deterministically from its client_id.
+   * Events recorded with a sampling rate lower than 1 report it
+   * in the `glean_sampling_rate` extra key.
+   *
+   * @param rate The sampling rate, between 0 and 1.
+   */
+  setSamplingRate(rate: number): void {
+    this.#inner.setSamplingRate(rate);
+  }
+
   /**
    * Test-only API
    *
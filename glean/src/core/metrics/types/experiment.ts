@@ -0,0 +1,196 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type { MetricValidationResult } from "../metric.js";
+import type { JSONObject } from "../../utils.js";
+
+import { Context } from "../../context.js";
+import { MetricType } from "../index.js";
+import { Lifetime } from "../lifetime.js";
+import { Metric, MetricValidation, MetricValidationError } from "../metric.js";
+import { ErrorType } from "../../error/error_type.js";
+import { INTERNAL_STORAGE } from "../../constants.js";
+import {
+  isObject,
+  isString,
+  isUndefined,
+  testOnlyCheck,
+  truncateStringAtBoundaryWithError
+} from "../../utils.js";
+
+const LOG_TAG = "core.metrics.ExperimentMetricType";
+// The suffix appended to experiment ids to build the name of their metric.
+const EXPERIMENT_NAME_SUFFIX = "#experiment";
+// The maximum length of experiment ids.
+export const MAX_EXPERIMENTS_IDS_LEN = 100;
+// The maximum length of experiment branches and of the keys and values of experiment extras.
+export const MAX_EXPERIMENT_VALUE_LEN = 100;
+// The maximum number of extras an experiment may have.
+export const MAX_EXPERIMENTS_EXTRAS_SIZE = 20;
+
+/**
+ * The data recorded for an active experiment.
+ */
+export interface RecordedExperiment extends JSONObject {
+  branch: string;
+  extra?: Record<string, string>;
+}
+
+export class ExperimentMetric extends Metric<RecordedExperiment, RecordedExperiment> {
+  constructor(v: unknown) {
+    super(v);
+  }
+
+  validate(v: unknown): MetricValidationResult {
+    if (!isObject(v) || !isString(v.branch)) {
+      return {
+        type: MetricValidation.Error,
+        errorMessage: `Expected experiment object with a string branch, got ${JSON.stringify(v)}`
+      };
+    }
+
+    if (!isUndefined(v.extra) && !(isObject(v.extra) && Object.values(v.extra).every(isString))) {
+      return {
+        type: MetricValidation.Error,
+        errorMessage: `Expected experiment extras to be an object of strings, got ${JSON.stringify(v.extra)}`
+      };
+    }
+
+    return { type: MetricValidation.Success };
+  }
+
+  payload(): RecordedExperiment {
+    return this.inner;
+  }
+}
+
+/**
+ * An experiment annotation, meant only for Glean internal use.
+ *
+ * Active experiments are stored for the application lifetime
+ * and reported in the `ping_info` section of all pings.
+ */
+export class InternalExperimentMetricType extends MetricType {
+  /**
+   * Builds the metric for a given experiment.
+   *
+   * @param experimentId The id of the experiment.
+   *        Ids longer than `MAX_EXPERIMENTS_IDS_LEN` are truncated
+   *        and an error is recorded once the experiment is activated.
+   */
+  constructor(private readonly experimentId: string) {
+    super(
+      "experiment",
+      {
+        category: "",
+        name: `${experimentId.substring(0, MAX_EXPERIMENTS_IDS_LEN)}${EXPERIMENT_NAME_SUFFIX}`,
+        sendInPings: [INTERNAL_STORAGE],
+        lifetime: Lifetime.Application,
+        disabled: false
+      },
+      ExperimentMetric
+    );
+  }
+
+  /**
+   * Marks this experiment as active, with the given branch and extras.
+   *
+   * Overwrites any data previously recorded for this experiment.
+   *
+   * @param branch The experiment branch.
+   *        Truncated to `MAX_EXPERIMENT_VALUE_LEN` characters.
+   * @param extra Optional extra data about the experiment.
+   *        Only the first `MAX_EXPERIMENTS_EXTRAS_SIZE` entries are kept
+   *        and keys and values are truncated to `MAX_EXPERIMENT_VALUE_LEN` characters.
+   */
+  setActive(branch: string, extra?: Record<string, string>): void {
+    if (!this.shouldRecord(Context.uploadEnabled)) {
+      return;
+    }
+
+    try {
+      // The id was truncated when building the metric name,
+      // here we only need to record the error in case that happened.
+      truncateStringAtBoundaryWithError(this, this.experimentId, MAX_EXPERIMENTS_IDS_LEN);
+      const experiment: RecordedExperiment = {
+        branch: truncateStringAtBoundaryWithError(this, branch, MAX_EXPERIMENT_VALUE_LEN)
+      };
+
+      if (!isUndefined(extra)) {
+        if (!isObject(extra)) {
+          throw new MetricValidationError(
+            `Expected experiment extras to be an object, got ${JSON.stringify(extra)}`
+          );
+        }
+
+        const entries = Object.entries(extra);
+        if (entries.length > MAX_EXPERIMENTS_EXTRAS_SIZE) {
+          Context.errorManager.record(
+            this,
+            ErrorType.InvalidValue,
+            `Extras length ${entries.length} exceeds maximum of ${MAX_EXPERIMENTS_EXTRAS_SIZE}.`
+          );
+        }
+
+        experiment.extra = {};
+        for (const [key, value] of entries.slice(0, MAX_EXPERIMENTS_EXTRAS_SIZE)) {
+          const truncatedKey = truncateStringAtBoundaryWithError(this, key, MAX_EXPERIMENT_VALUE_LEN);
+          experiment.extra[truncatedKey] = truncateStringAtBoundaryWithError(
+            this,
+            value,
+            MAX_EXPERIMENT_VALUE_LEN
+          );
+        }
+      }
+
+      Context.metricsDatabase.record(this, new ExperimentMetric(experiment));
+    } catch (e) {
+      if (e instanceof MetricValidationError) {
+        e.recordError(this);
+      }
+    }
+  }
+
+  /**
+   * Marks this experiment as inactive, deleting any data recorded for it.
+   */
+  setInactive(): void {
+    if (!this.shouldRecord(Context.uploadEnabled)) {
+      return;
+    }
+
+    Context.metricsDatabase.delete(this);
+  }
+
+  /// TESTING ///
+  testGetValue(): RecordedExperiment | undefined {
+    if (testOnlyCheck("testGetValue", LOG_TAG)) {
+      return Context.metricsDatabase.getMetric<RecordedExperiment>(INTERNAL_STORAGE, this);
+    }
+  }
+}
+
+/**
+ * Gets the data of all currently active experiments.
+ *
+ * @returns An object mapping experiment ids to their data,
+ *          `undefined` in case there are no active experiments.
+ */
+export function getActiveExperiments(): Record<string, RecordedExperiment> | undefined {
+  const metrics = Context.metricsDatabase.getPingMetricsOfType(
+    INTERNAL_STORAGE,
+    Lifetime.Application,
+    "experiment"
+  );
+  if (!metrics) {
+    return;
+  }
+
+  const experiments: Record<string, RecordedExperiment> = {};
+  for (const name in metrics) {
+    const id = name.substring(0, name.length - EXPERIMENT_NAME_SUFFIX.length);
+    experiments[id] = metrics[name] as RecordedExperiment;
+  }
+  return experiments;
+}
@@ -0,0 +1,164 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import { Context } from "./context.js";
+import log, { LoggingLevel } from "./log.js";
+import { METRICS_PING_NAME, PING_INFO_STORAGE } from "./constants.js";
+import { Lifetime } from "./metrics/lifetime.js";
+import TimeUnit from "./metrics/time_unit.js";
+import { DatetimeMetric, InternalDatetimeMetricType as DatetimeMetricType } from "./metrics/types/datetime.js";
+import { isUndefined } from "./utils.js";
+
+const LOG_TAG = "core.MetricsPingScheduler";
+
+/**
+ * Checks whether or not two dates fall on the same local calendar day.
+ *
+ * @param a The first date.
+ * @param b The second date.
+ * @returns Whether or not the dates fall on the same day.
+ */
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate();
+}
+
+/**
+ * Submits the `metrics` ping once per calendar day, at a given local hour.
+ *
+ * In case the due time was missed, e.g. because the application was not running,
+ * the ping is submitted right away when the scheduler starts.
+ *
+ * The time the ping was last sent at is stored in the ping info storage,
+ * so that it survives restarts.
+ */
+export default class MetricsPingScheduler {
+  private lastSentTime: DatetimeMetricType;
+  // The id of the timeout for the next submission, if any is scheduled.
+  private timeout?: number;
+
+  /**
+   * @param scheduleHour The local hour of the day, between 0 and 23, the ping is due at.
+   * @param now Gets the current time. Only meant to be overridden in tests.
+   */
+  constructor(
+    private readonly scheduleHour: number,
+    private readonly now: () => Date = () => new Date()
+  ) {
+    this.lastSentTime = new DatetimeMetricType(
+      {
+        category: "",
+        name: `${METRICS_PING_NAME}#last_sent`,
+        sendInPings: [PING_INFO_STORAGE],
+        lifetime: Lifetime.User,
+        disabled: false
+      },
+      TimeUnit.Minute
+    );
+  }
+
+  /**
+   * Submits the ping in case it is overdue and schedules the next submission.
+   *
+   * # Important
+   *
+   * This must be called before application lifetime metrics are cleared at initialize,
+   * so that an overdue ping still contains them.
+   */
+  start(): void {
+    const now = this.now();
+    const lastSent = this.getLastSentTime();
+
+    if (lastSent && isSameDay(lastSent, now)) {
+      // The ping was already sent today, wait for tomorrow.
+      this.schedule("reschedule", now);
+    } else if (now >= this.getDueTime(now, false)) {
+      // The ping was not sent today and it is already past the due time.
+      this.submit("overdue", now);
+      this.schedule("reschedule", now);
+    } else {
+      this.schedule("today", now);
+    }
+  }
+
+  /**
+   * Cancels the next scheduled submission.
+   */
+  stop(): void {
+    if (!isUndefined(this.timeout)) {
+      Context.platform.timer.clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  /**
+   * Gets the time the ping was last sent at.
+   *
+   * @returns The time or `undefined` in case the ping was never sent
+   *          or the stored value is invalid.
+   */
+  private getLastSentTime(): Date | undefined {
+    const data = Context.metricsDatabase.getMetric(PING_INFO_STORAGE, this.lastSentTime);
+    if (isUndefined(data)) {
+      return;
+    }
+
+    try {
+      return new DatetimeMetric(data).date;
+    } catch {
+      log(
+        LOG_TAG,
+        `Unexpected value found for the last time the ${METRICS_PING_NAME} ping was sent. Ignoring.`,
+        LoggingLevel.Warn
+      );
+    }
+  }
+
+  /**
+   * Gets the time the ping is due at.
+   *
+   * @param now The current time.
+   * @param tomorrow Whether to get the due time of the next day, instead of the current one.
+   * @returns The due time.
+   */
+  private getDueTime(now: Date, tomorrow: boolean): Date {
+    return new Date(
+      now.getFullYear(),
+      now.getMonth(),
+      now.getDate() + (tomorrow ? 1 : 0),
+      this.scheduleHour
+    );
+  }
+
+  /**
+   * Records the current time as the last time the ping was sent and submits the ping.
+   *
+   * @param reason The reason for submitting the ping.
+   * @param now The current time.
+   */
+  private submit(reason: string, now: Date): void {
+    this.lastSentTime.set(now);
+    Context.corePings.metrics.submit(reason);
+  }
+
+  /**
+   * Schedules the next submission, which in turn schedules the one after it.
+   *
+   * @param reason The reason the next submission happens for.
+   *        When `today`, the ping is due later on the current day, otherwise on the next day.
+   * @param now The current time.
+   */
+  private schedule(reason: "today" | "reschedule", now: Date): void {
+    this.stop();
+
+    const delay = Math.max(0, this.getDueTime(now, reason === "reschedule").getTime() - now.getTime());
+    this.timeout = Context.platform.timer.setTimeout(() => {
+      this.timeout = undefined;
+      const firedAt = this.now();
+      this.submit(reason, firedAt);
+      this.schedule("reschedule", firedAt);
+    }, delay);
+  }
+}
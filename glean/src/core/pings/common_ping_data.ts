@@ -15,6 +15,24 @@ export default interface CommonPingData {
   // Optional. The valid reason codes for this ping.
   readonly reasonCodes?: string[];
 
-  // Currently NOT IMPLEMENTED.
+  // Optional. Whether the start and end times of the ping are reported
+  // with millisecond precision, instead of the default minute precision.
   readonly preciseTimestamps?: boolean;
+  // Optional. Whether the `client_info` and `ping_info` sections are included
+  // in the assembled ping. Defaults to `true`.
+  //
+  // Pings without these sections do not have a sequence number either.
+  readonly includeInfoSections?: boolean;
+
+  // Optional. Whether the ping is enabled and disabled along with collection,
+  // through `Glean.setCollectionEnabled`. Defaults to `true`.
+  //
+  // Pings which do not follow collection keep recording and submitting
+  // while collection is disabled and their data is not cleared when it gets disabled.
+  readonly followsCollectionEnabled?: boolean;
+  // Optional. Whether the ping is enabled. Defaults to `true`.
+  //
+  // This is the only switch of pings which do not follow collection.
+  // It can be changed at runtime through `Glean.setPingEnabled`.
+  readonly enabled?: boolean;
 }
@@ -9,7 +9,7 @@ import { strToU8 } from "fflate";
 import log, { LoggingLevel } from "../log.js";
 import { Context } from "../context.js";
 import { DELETION_REQUEST_PING_NAME } from "../constants.js";
-import { isJSONValue, isNumber, isObject, isString } from "../utils.js";
+import { isInteger, isJSONValue, isNumber, isObject, isString } from "../utils.js";
 
 /// CONSTANTS ///
 export const PINGS_DATABASE_LOG_TAG = "core.Pings.Database";
@@ -27,6 +27,8 @@ export interface PingInternalRepresentation extends JSONObject {
   path: string;
   payload: JSONObject;
   headers?: Record<string, string>;
+  // The number of failed attempts to upload this ping.
+  attempts?: number;
 }
 
 /**
@@ -53,6 +55,7 @@ export interface Observer {
  *    "path": string,
  *    "payload": PingPayload,
  *    "headers": PingHeaders,
+ *    "attempts": number,
  *  }
  * }
  */
@@ -103,6 +106,22 @@ class PingsDatabase {
     this.observer && this.observer.update(identifier, ping);
   }
 
+  /**
+   * Updates the number of failed upload attempts of a given ping.
+   *
+   * This is a no-op in case the ping is no longer in the database.
+   *
+   * @param identifier The identifier of the ping to update.
+   * @param attempts The number of failed upload attempts.
+   */
+  updateUploadAttempts(identifier: string, attempts: number): void {
+    if (!isValidPingInternalRepresentation(this.store.get([identifier]))) {
+      return;
+    }
+
+    this.store.update([identifier, "attempts"], () => attempts);
+  }
+
   /**
    * Deletes a specific ping from the database.
    *
@@ -158,7 +177,8 @@ class PingsDatabase {
       return;
     }
 
-    const pings = this.getAllPingsWithoutSurplus();
+    const { maxPendingPings, maxPendingPingsSize } = Context.config.uploadPolicy;
+    const pings = this.getAllPingsWithoutSurplus(maxPendingPings, maxPendingPingsSize);
     for (const [identifier, ping] of pings) {
       // Notify the observer that a new ping has been added to the pings database.
       this.observer.update(identifier, ping);
@@ -172,6 +192,22 @@ class PingsDatabase {
     this.store.delete([]);
   }
 
+  /**
+   * Clears all the pings from the database, except for `deletion-request` pings.
+   *
+   * Those are still pending upload after upload is disabled
+   * and must survive until the server has acknowledged them.
+   *
+   * @param keepPings The names of other pings which must be kept.
+   */
+  clearPendingPings(keepPings: string[] = []): void {
+    for (const [identifier, ping] of this.getAllPings()) {
+      if (!isDeletionRequest(ping) && !keepPings.includes(getPingName(ping))) {
+        this.deletePing(identifier);
+      }
+    }
+  }
+
   /**
    * Delete surplus of pings in the database by count or database size
    * and return list of remaining pings. Pings are deleted from oldest to newest.
@@ -266,7 +302,17 @@ class PingsDatabase {
  * @returns Whether or not the ping is a deletion-request ping.
  */
 export function isDeletionRequest(ping: PingInternalRepresentation): boolean {
-  return ping.path.split("/")[3] === DELETION_REQUEST_PING_NAME;
+  return getPingName(ping) === DELETION_REQUEST_PING_NAME;
+}
+
+/**
+ * Gets the name of a given ping, from its path.
+ *
+ * @param ping The ping to get the name of.
+ * @returns The name of the ping.
+ */
+export function getPingName(ping: PingInternalRepresentation): string {
+  return ping.path.split("/")[3];
 }
 
 /**
@@ -295,7 +341,14 @@ export function isValidPingInternalRepresentation(v: unknown): v is PingInternal
     const hasValidPath = "path" in v && isString(v.path);
     const hasValidPayload = "payload" in v && isJSONValue(v.payload) && isObject(v.payload);
     const hasValidHeaders = !("headers" in v) || (isJSONValue(v.headers) && isObject(v.headers));
-    if (!hasValidCollectionDate || !hasValidPath || !hasValidPayload || !hasValidHeaders) {
+    const hasValidAttempts = !("attempts" in v) || isInteger(v.attempts);
+    if (
+      !hasValidCollectionDate ||
+      !hasValidPath ||
+      !hasValidPayload ||
+      !hasValidHeaders ||
+      !hasValidAttempts
+    ) {
       return false;
     }
     return true;
@@ -4,6 +4,8 @@
 
 import type { ClientInfo, PingInfo, PingPayload } from "../pings/ping_payload.js";
 import type CommonPingData from "./common_ping_data.js";
+import type { JSONObject } from "../utils.js";
+import type { Metrics } from "../metrics/index.js";
 
 import { Context } from "../context.js";
 import log, { LoggingLevel } from "../log.js";
@@ -13,7 +15,16 @@ import { CounterMetric } from "../metrics/types/counter.js";
 import { InternalCounterMetricType as CounterMetricType } from "../metrics/types/counter.js";
 import { DatetimeMetric } from "../metrics/types/datetime.js";
 import { InternalDatetimeMetricType as DatetimeMetricType } from "../metrics/types/datetime.js";
-import { GLEAN_VERSION, PING_INFO_STORAGE, CLIENT_INFO_STORAGE, GLEAN_SCHEMA_VERSION } from "../constants.js";
+import {
+  GLEAN_VERSION,
+  PING_INFO_STORAGE,
+  CLIENT_INFO_STORAGE,
+  ALL_PINGS_STORAGE,
+  DELETION_REQUEST_PING_NAME,
+  GLEAN_SCHEMA_VERSION
+} from "../constants.js";
+import { getActiveExperiments } from "../metrics/types/experiment.js";
+import CoreEvents, { PayloadWithHeaders } from "../events/index.js";
 
 const PINGS_MAKER_LOG_TAG = "core.Pings.Maker";
 
@@ -67,6 +78,16 @@ export function getPingHeaders(): Record<string, string> | undefined {
   }
 }
 
+/**
+ * Gets the resolution of the start and end times of a given ping.
+ *
+ * @param ping The ping for which we want to get the resolution.
+ * @returns `TimeUnit.Millisecond` for pings with precise timestamps, `TimeUnit.Minute` otherwise.
+ */
+function getStartEndTimeUnit(ping: CommonPingData): TimeUnit {
+  return ping.preciseTimestamps ? TimeUnit.Millisecond : TimeUnit.Minute;
+}
+
 /**
  * Gets the start time metric and its currently stored data.
  *
@@ -74,6 +95,7 @@ export function getPingHeaders(): Record<string, string> | undefined {
  * @returns An object containing the start time metric and its value.
  */
 function getStartTimeMetricAndData(ping: CommonPingData): StartTimeMetricData {
+  const timeUnit = getStartEndTimeUnit(ping);
   const startTimeMetric = new DatetimeMetricType(
     {
       category: "",
@@ -82,7 +104,7 @@ function getStartTimeMetricAndData(ping: CommonPingData): StartTimeMetricData {
       lifetime: Lifetime.User,
       disabled: false
     },
-    TimeUnit.Minute
+    timeUnit
   );
 
   // "startTime" is the time the ping was generated the last time.
@@ -96,7 +118,7 @@ function getStartTimeMetricAndData(ping: CommonPingData): StartTimeMetricData {
   if (startTimeData) {
     startTime = new DatetimeMetric(startTimeData);
   } else {
-    startTime = DatetimeMetric.fromDate(Context.startTime, TimeUnit.Minute);
+    startTime = DatetimeMetric.fromDate(Context.startTime, timeUnit);
   }
 
   return {
@@ -158,7 +180,7 @@ export function getStartEndTimes(ping: CommonPingData): { startTime: string; end
   // Update the start time with the current time.
   const endTimeData = new Date();
   startTimeMetric.set(endTimeData);
-  const endTime = DatetimeMetric.fromDate(endTimeData, TimeUnit.Minute);
+  const endTime = DatetimeMetric.fromDate(endTimeData, getStartEndTimeUnit(ping));
 
   return {
     startTime: startTime.payload(),
@@ -187,6 +209,11 @@ export function buildPingInfoSection(ping: CommonPingData, reason?: string): Pin
     pingInfo.reason = reason;
   }
 
+  const experiments = getActiveExperiments();
+  if (experiments) {
+    pingInfo.experiments = experiments;
+  }
+
   return pingInfo;
 }
 
@@ -221,6 +248,25 @@ export function buildClientInfoSection(ping: CommonPingData): ClientInfo {
   return finalClientInfo;
 }
 
+/**
+ * Merges two metrics snapshots.
+ *
+ * @param target The snapshot to merge into.
+ * @param source The snapshot to merge, its metrics take precedence in case of conflicts.
+ * @returns The merged snapshot or `undefined` in case both snapshots are `undefined`.
+ */
+function mergeMetrics(target?: Metrics, source?: Metrics): Metrics | undefined {
+  if (!target || !source) {
+    return target || source;
+  }
+
+  const result: Metrics = { ...target };
+  for (const metricType in source) {
+    result[metricType] = { ...result[metricType], ...source[metricType] };
+  }
+  return result;
+}
+
 /**
  * Collects a snapshot for the given ping from storage and attach required meta information.
  *
@@ -249,8 +295,22 @@ export function collectPing(ping: CommonPingData, reason?: string): PingPayload
     );
   }
 
-  const metrics = metricsData ? { metrics: metricsData } : {};
+  // Metrics sent in all pings do not count towards the ping being empty.
+  const allMetricsData = mergeMetrics(
+    metricsData,
+    Context.metricsDatabase.getPingMetrics(ALL_PINGS_STORAGE, false)
+  );
+  const metrics = allMetricsData ? { metrics: allMetricsData } : {};
   const events = eventsData ? { events: eventsData } : {};
+  if (ping.includeInfoSections === false) {
+    // The info sections are left out entirely, instead of being sent empty,
+    // and the sequence number is not incremented.
+    return {
+      ...metrics,
+      ...events
+    };
+  }
+
   const pingInfo = buildPingInfoSection(ping, reason);
   const clientInfo = buildClientInfoSection(ping);
   return {
@@ -261,6 +321,25 @@ export function collectPing(ping: CommonPingData, reason?: string): PingPayload
   };
 }
 
+/**
+ * Logs an error thrown by the plugin listening to the `afterPingCollection` event.
+ *
+ * @param ping The ping that was being collected.
+ * @param error The error thrown by the plugin.
+ */
+function logAfterPingCollectionError(ping: CommonPingData, error: unknown): void {
+  log(
+    PINGS_MAKER_LOG_TAG,
+    [
+      `Error while attempting to modify ping payload for the "${ping.name}" ping using`,
+      `the ${JSON.stringify(CoreEvents.afterPingCollection.registeredPluginIdentifier)} plugin.`,
+      "Ping will not be submitted. See more logs below.\n\n",
+      error
+    ],
+    LoggingLevel.Error
+  );
+}
+
 /**
  * Collects and stores a ping on the pings database.
  *
@@ -286,14 +365,56 @@ export function collectAndStorePing(
     log(PINGS_MAKER_LOG_TAG, JSON.stringify(collectedPayload, null, 2), LoggingLevel.Info);
   }
 
+  // Headers are gathered right away, the debug options may change
+  // until a plugin returning a promise is done modifying the payload.
   const headers = getPingHeaders();
+  const path = makePath(identifier, ping);
+  const storePing = (result: JSONObject | PayloadWithHeaders | null) => {
+    if (result === null) {
+      log(
+        PINGS_MAKER_LOG_TAG,
+        `The ${JSON.stringify(CoreEvents.afterPingCollection.registeredPluginIdentifier)} plugin discarded the "${ping.name}" ping.`,
+        LoggingLevel.Info
+      );
+      return;
+    }
 
-  Context.pingsDatabase.recordPing(
-    makePath(identifier, ping),
-    identifier,
-    collectedPayload,
-    headers
-  );
+    // A plugin returning a promise stores the ping later on. By then, collection or the ping itself
+    // may have been disabled and its data cleared: such a ping must not be uploaded anymore.
+    //
+    // The deletion-request ping is always sent, regardless of collection.
+    if (ping.name !== DELETION_REQUEST_PING_NAME && !Context.isPingEnabled(ping.name)) {
+      log(
+        PINGS_MAKER_LOG_TAG,
+        `The "${ping.name}" ping was disabled while it was being collected. Not storing.`,
+        LoggingLevel.Info
+      );
+      return;
+    }
+
+    if (result instanceof PayloadWithHeaders) {
+      Context.pingsDatabase.recordPing(path, identifier, result.payload, { ...headers, ...result.headers });
+    } else {
+      Context.pingsDatabase.recordPing(path, identifier, result, headers);
+    }
+  };
+
+  let modifiedPayload;
+  try {
+    modifiedPayload = CoreEvents.afterPingCollection.trigger(collectedPayload);
+  } catch (e) {
+    logAfterPingCollectionError(ping, e);
+    return;
+  }
+
+  if (modifiedPayload instanceof Promise) {
+    modifiedPayload
+      .then(storePing)
+      .catch((e) => logAfterPingCollectionError(ping, e));
+    return;
+  }
+
+  storePing(modifiedPayload === undefined ? collectedPayload : modifiedPayload);
 }
 
 export default collectAndStorePing;
@@ -3,6 +3,7 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
 
 import type { Metrics } from "../metrics/index.js";
+import type { RecordedExperiment } from "../metrics/types/experiment.js";
 import type { JSONObject, JSONArray } from "../utils.js";
 
 export interface PingInfo extends JSONObject {
@@ -10,6 +11,7 @@ export interface PingInfo extends JSONObject {
   start_time: string,
   end_time: string,
   reason?: string,
+  experiments?: Record<string, RecordedExperiment>,
 }
 
 export interface ClientInfo extends JSONObject {
@@ -35,8 +37,9 @@ export interface ClientInfo extends JSONObject {
  * the Glean ping [schema](https://github.com/mozilla-services/mozilla-pipeline-schemas/blob/master/schemas/glean/glean/glean.1.schema.json)
  */
 export interface PingPayload extends JSONObject {
-  ping_info: PingInfo,
-  client_info: ClientInfo,
+  // Both sections are only left out for pings which do not include info sections.
+  ping_info?: PingInfo,
+  client_info?: ClientInfo,
   metrics?: Metrics,
   events?: JSONArray,
 }
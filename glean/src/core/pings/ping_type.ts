@@ -14,6 +14,7 @@ import collectAndStorePing from "../pings/maker.js";
 const LOG_TAG = "core.Pings.PingType";
 
 type ValidatorFunction = (reason?: string) => Promise<void>;
+type BeforeCollectCallback = (reason?: string) => void;
 type PromiseCallback = (value: void | PromiseLike<void>) => void;
 
 /**
@@ -32,8 +33,19 @@ export class InternalPingType implements CommonPingData {
   readonly sendIfEmpty: boolean;
   readonly reasonCodes: string[];
 
-  // Currently NOT IMPLEMENTED.
+  // Optional. Whether the start and end times of the ping are reported
+  // with millisecond precision, instead of the default minute precision.
   readonly preciseTimestamps?: boolean;
+  // Optional. Whether the `client_info` and `ping_info` sections are included in the ping.
+  readonly includeInfoSections?: boolean;
+
+  // Whether the ping is enabled and disabled along with collection.
+  readonly followsCollectionEnabled: boolean;
+  // Whether the ping is enabled, regardless of collection.
+  enabled: boolean;
+
+  // The function to run right before the ping is collected, if any.
+  private beforeCollectCallback?: BeforeCollectCallback;
 
   // The functions and promises required for the test API to
   // execute and synchronize with the submission API.
@@ -47,11 +59,86 @@ export class InternalPingType implements CommonPingData {
     this.sendIfEmpty = meta.sendIfEmpty;
     this.reasonCodes = meta.reasonCodes ?? [];
 
-    // Currently NOT IMPLEMENTED.
     this.preciseTimestamps = meta.preciseTimestamps;
+    this.includeInfoSections = meta.includeInfoSections;
+
+    this.followsCollectionEnabled = meta.followsCollectionEnabled ?? true;
+    this.enabled = meta.enabled ?? true;
+
+    Context.registerPing(this);
+  }
+
+  /**
+   * Checks whether or not this ping is enabled.
+   *
+   * Pings which follow collection are only enabled while collection is enabled,
+   * other pings only depend on their own `enabled` flag.
+   *
+   * @param collectionEnabled Whether or not collection is currently enabled.
+   * @returns Whether or not the ping is enabled.
+   */
+  isEnabled(collectionEnabled: boolean = Context.uploadEnabled): boolean {
+    return this.enabled && (!this.followsCollectionEnabled || collectionEnabled);
+  }
+
+  /**
+   * Enables or disables this ping, regardless of collection.
+   *
+   * Disabling a ping drops any data pending to be sent in it.
+   *
+   * @param enabled Whether or not the ping should be enabled.
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled && Context.initialized) {
+      this.clearPendingData();
+    }
+  }
+
+  /**
+   * Drops the metrics and events pending to be sent in this ping.
+   */
+  clearPendingData(): void {
+    Context.metricsDatabase.clearPing(this.name);
+    Context.eventsDatabase.clearPing(this.name);
+  }
+
+  /**
+   * Registers a function to run right before the ping is collected, on every submission.
+   *
+   * Any previously registered function is replaced.
+   *
+   * @param callback The function to run. It receives the reason the ping was submitted for.
+   */
+  onBeforeCollect(callback: BeforeCollectCallback): void {
+    this.beforeCollectCallback = callback;
   }
 
   submit(reason?: string): void {
+    if (!this.canSubmit()) {
+      return;
+    }
+
+    let correctedReason = reason;
+    if (reason && !this.reasonCodes.includes(reason)) {
+      log(LOG_TAG, `Invalid reason code ${reason} from ${this.name}. Ignoring.`, LoggingLevel.Warn);
+      correctedReason = undefined;
+    }
+
+    // The callback runs before any test validator,
+    // so that validators see what it records right before collection.
+    if (this.beforeCollectCallback) {
+      try {
+        this.beforeCollectCallback(correctedReason);
+      } catch (e) {
+        log(
+          LOG_TAG,
+          [`There was an error running the callback before collecting "${this.name}":`, e],
+          LoggingLevel.Error
+        );
+      }
+    }
+
     // **** Read this before changing the following code! ****
     //
     // The Dispatcher does not allow dispatched tasks to await on
@@ -64,7 +151,7 @@ export class InternalPingType implements CommonPingData {
     if (this.testCallback) {
       this.testCallback(reason)
         .then(() => {
-          this.internalSubmit(reason, this.resolveTestPromiseFunction);
+          this.internalSubmit(correctedReason, this.resolveTestPromiseFunction);
         })
         .catch((e) => {
           log(
@@ -72,36 +159,55 @@ export class InternalPingType implements CommonPingData {
             [`There was an error validating "${this.name}" (${reason ?? "no reason"}):`, e],
             LoggingLevel.Error
           );
-          this.internalSubmit(reason, this.rejectTestPromiseFunction);
+          this.internalSubmit(correctedReason, this.rejectTestPromiseFunction);
         });
     } else {
-      this.internalSubmit(reason);
+      this.internalSubmit(correctedReason);
     }
   }
 
-  private internalSubmit(reason?: string, testResolver?: PromiseCallback) {
+  /**
+   * Checks whether or not this ping may be submitted, logging the reason in case it may not.
+   *
+   * @returns Whether or not this ping may be submitted.
+   */
+  private canSubmit(): boolean {
     if (!Context.initialized) {
       log(LOG_TAG, "Glean must be initialized before submitting pings.", LoggingLevel.Info);
-      return;
+      return false;
     }
 
-    if (!Context.uploadEnabled && !isDeletionRequest(this.name)) {
+    if (!this.isEnabled() && !isDeletionRequest(this.name)) {
       log(
         LOG_TAG,
-        "Glean disabled: not submitting pings. Glean may still submit the deletion-request ping.",
+        this.enabled
+          ? "Glean disabled: not submitting pings. Glean may still submit the deletion-request ping."
+          : `The "${this.name}" ping is disabled: not submitting.`,
         LoggingLevel.Info
       );
-      return;
+      return false;
     }
 
-    let correctedReason = reason;
-    if (reason && !this.reasonCodes.includes(reason)) {
-      log(LOG_TAG, `Invalid reason code ${reason} from ${this.name}. Ignoring.`, LoggingLevel.Warn);
-      correctedReason = undefined;
+    if (Context.serverKnobs.isPingEnabled(this.name) === false && !isDeletionRequest(this.name)) {
+      log(
+        LOG_TAG,
+        `The "${this.name}" ping is disabled by the server knobs configuration. Not submitting.`,
+        LoggingLevel.Info
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  private internalSubmit(reason?: string, testResolver?: PromiseCallback) {
+    // The state of Glean or of this ping may have changed while validating.
+    if (testResolver && !this.canSubmit()) {
+      return;
     }
 
     const identifier = generateUUIDv4();
-    collectAndStorePing(identifier, this, correctedReason);
+    collectAndStorePing(identifier, this, reason);
 
     if (testResolver) {
       testResolver();
@@ -163,10 +269,26 @@ export default class {
     this.#inner.submit(reason);
   }
 
+  /**
+   * Registers a function to run right before the ping is collected, on every submission.
+   *
+   * This allows sampling values at the exact time the ping is assembled,
+   * metrics recorded by the function are included in the ping being submitted.
+   *
+   * Any previously registered function is replaced.
+   *
+   * @param callback The synchronous function to run. It receives the reason
+   *        the ping was submitted for, if any.
+   */
+  onBeforeCollect(callback: (reason?: string) => void): void {
+    this.#inner.onBeforeCollect(callback);
+  }
+
   /**
    * Test-only API
    *
    * Runs a validation function before the ping is collected.
+   * It runs after the function registered through `onBeforeCollect`, if any.
    *
    * @param callbackFn The asynchronous validation function to run in order to validate
    *        the ping content.
@@ -0,0 +1,207 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Store from "./storage.js";
+import type { ServerKnobsConfig } from "./server_knobs.js";
+import type { JSONObject } from "./utils.js";
+
+import { Context } from "./context.js";
+import log, { LoggingLevel } from "./log.js";
+import { isValidServerKnobsConfig, validateServerKnobsConfig } from "./server_knobs.js";
+import { isInteger, isObject, isString, isUndefined } from "./utils.js";
+
+const LOG_TAG = "core.RemoteConfig";
+
+/**
+ * The last remote configuration successfully fetched.
+ */
+interface CachedRemoteConfig extends JSONObject {
+  // The URL the configuration was fetched from.
+  url: string;
+  // The time the configuration was fetched at, in milliseconds since the Unix epoch.
+  fetchedAt: number;
+  config: ServerKnobsConfig;
+}
+
+/**
+ * Checks whether or not `v` is a valid cached remote configuration.
+ *
+ * @param v The value to verify.
+ * @returns Whether or not `v` is a valid cached remote configuration.
+ */
+function isCachedRemoteConfig(v: unknown): v is CachedRemoteConfig {
+  return isObject(v) &&
+    isString(v.url) &&
+    isInteger(v.fetchedAt) &&
+    isValidServerKnobsConfig(v.config);
+}
+
+/**
+ * Periodically fetches the server knobs configuration from a remote URL.
+ *
+ * The last configuration fetched is cached, so that it can be applied
+ * as soon as Glean is initialized, without waiting for the network.
+ *
+ * Each configuration fetched replaces the previous remote configuration as a whole.
+ * It takes precedence over, but does not replace, any configuration applied
+ * through `Glean.applyServerKnobsConfig`.
+ *
+ * Fetching never blocks recording: in case of failure the current configuration is kept
+ * and fetching is attempted again once the refresh interval elapses.
+ */
+export default class RemoteConfig {
+  private store: Store;
+  // The id of the timeout for the next refresh, if any is scheduled.
+  private refreshTimeout?: number;
+  private stopped = false;
+
+  /**
+   * @param url The URL to fetch the configuration from.
+   * @param refreshInterval How often to refresh the configuration, in milliseconds.
+   */
+  constructor(private readonly url: string, private readonly refreshInterval: number) {
+    this.store = new Context.platform.Storage("remoteConfig");
+  }
+
+  /**
+   * Applies the cached configuration and schedules the refreshes.
+   *
+   * The configuration is fetched right away in case there is no cached configuration
+   * for the current URL or in case the cached configuration is older than the refresh interval.
+   */
+  start(): void {
+    if (!Context.platform.remoteConfigFetcher) {
+      log(
+        LOG_TAG,
+        `The "${Context.platform.name}" platform is not able to fetch the remote configuration. Ignoring.`,
+        LoggingLevel.Warn
+      );
+      return;
+    }
+
+    let delay = 0;
+    const cached = this.getCached();
+    if (cached) {
+      Context.serverKnobs.applyRemote(cached.config);
+      const age = Date.now() - cached.fetchedAt;
+      // A negative age means the clock went backwards, refresh right away in that case.
+      if (age >= 0 && age < this.refreshInterval) {
+        delay = this.refreshInterval - age;
+      }
+    }
+
+    this.scheduleRefresh(delay);
+  }
+
+  /**
+   * Stops any scheduled refresh.
+   *
+   * Configurations which are being fetched at this point are discarded.
+   */
+  stop(): void {
+    this.stopped = true;
+    if (!isUndefined(this.refreshTimeout)) {
+      Context.platform.timer.clearTimeout(this.refreshTimeout);
+      this.refreshTimeout = undefined;
+    }
+  }
+
+  /**
+   * Clears the cached configuration.
+   */
+  clear(): void {
+    if (!isUndefined(this.store.get())) {
+      this.store.delete([]);
+    }
+  }
+
+  /**
+   * Fetches, validates, caches and applies the remote configuration.
+   *
+   * Failures are logged and leave the current configuration untouched.
+   */
+  async refresh(): Promise<void> {
+    const body = await Context.platform.remoteConfigFetcher?.fetch(this.url);
+    if (this.stopped) {
+      return;
+    }
+
+    if (isUndefined(body)) {
+      log(
+        LOG_TAG,
+        `Unable to fetch the remote configuration from ${this.url}. Keeping the current configuration.`,
+        LoggingLevel.Warn
+      );
+      return;
+    }
+
+    let config: unknown;
+    try {
+      config = JSON.parse(body);
+    } catch (e) {
+      log(
+        LOG_TAG,
+        [`Unable to parse the remote configuration fetched from ${this.url}. Ignoring.`, e],
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    if (!isValidServerKnobsConfig(config)) {
+      log(
+        LOG_TAG,
+        `Invalid remote configuration fetched from ${this.url}: ${validateServerKnobsConfig(config) ?? ""} Ignoring.`,
+        LoggingLevel.Error
+      );
+      return;
+    }
+
+    const validConfig = config;
+    this.store.update(["url"], () => this.url);
+    this.store.update(["fetchedAt"], () => Date.now());
+    this.store.update(["config"], () => validConfig);
+    Context.serverKnobs.applyRemote(validConfig);
+  }
+
+  /**
+   * Gets the cached configuration, deleting it in case it is invalid.
+   *
+   * @returns The cached configuration or `undefined` in case there is none
+   *          or it was fetched from a different URL.
+   */
+  private getCached(): CachedRemoteConfig | undefined {
+    const cached = this.store.get();
+    if (isUndefined(cached)) {
+      return;
+    }
+
+    if (!isCachedRemoteConfig(cached)) {
+      log(
+        LOG_TAG,
+        `Unexpected data found in the remote configuration storage: ${JSON.stringify(cached)}. Deleting.`,
+        LoggingLevel.Warn
+      );
+      this.store.delete([]);
+      return;
+    }
+
+    return cached.url === this.url ? cached : undefined;
+  }
+
+  /**
+   * Schedules the next refresh, which in turn schedules the one after it.
+   *
+   * @param delay The time to wait before refreshing, in milliseconds.
+   */
+  private scheduleRefresh(delay: number): void {
+    this.refreshTimeout = Context.platform.timer.setTimeout(() => {
+      this.refreshTimeout = undefined;
+      void this.refresh().then(() => {
+        if (!this.stopped) {
+          this.scheduleRefresh(this.refreshInterval);
+        }
+      });
+    }, delay);
+  }
+}
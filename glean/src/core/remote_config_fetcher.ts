@@ -0,0 +1,21 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+// The timeout, in milliseconds, to use when fetching the remote configuration.
+export const DEFAULT_FETCH_TIMEOUT_MS = 10_000;
+
+interface RemoteConfigFetcher {
+  /**
+   * Fetches the remote configuration document.
+   *
+   * Implementations must never reject, failures are logged and reported as `undefined`.
+   *
+   * @param url The URL to fetch the document from.
+   * @returns The body of the response or `undefined` in case the request failed
+   *          or the server did not respond with a successful status code.
+   */
+  fetch(url: string): Promise<string | undefined>;
+}
+
+export default RemoteConfigFetcher;
@@ -0,0 +1,250 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Store from "./storage.js";
+import type { MetricType } from "./metrics/index.js";
+import type { JSONObject } from "./utils.js";
+
+import { Context } from "./context.js";
+import log, { LoggingLevel } from "./log.js";
+import { isBoolean, isNumber, isObject, isUndefined } from "./utils.js";
+
+const LOG_TAG = "core.ServerKnobs";
+
+/**
+ * The server knobs configuration, as sent by the server.
+ *
+ * # Example
+ *
+ * {
+ *   "metrics_enabled": {
+ *     "category": false,
+ *     "category.name": true
+ *   },
+ *   "pings_enabled": {
+ *     "ping": false
+ *   },
+ *   "event_sampling_rates": {
+ *     "category.name": 0.1
+ *   }
+ * }
+ */
+export interface ServerKnobsConfig extends JSONObject {
+  // Maps metric identifiers (`category.name`) or whole categories to whether they are enabled.
+  metrics_enabled?: Record<string, boolean>;
+  // Maps ping names to whether they are enabled.
+  pings_enabled?: Record<string, boolean>;
+  // Maps event identifiers (`category.name`) or whole categories to the
+  // fraction of clients, between 0 and 1, which should record them.
+  event_sampling_rates?: Record<string, number>;
+}
+
+/**
+ * Validates a map of strings to values of the server knobs configuration.
+ *
+ * @param key The name of the map in the configuration.
+ * @param v The map to validate.
+ * @param isValidValue Checks whether or not a value of the map is valid.
+ * @param expected A description of the expected values, used in the error message.
+ * @returns A description of the problem found or `undefined` in case the map is valid.
+ */
+function validateMap(
+  key: string,
+  v: unknown,
+  isValidValue: (value: unknown) => boolean,
+  expected: string
+): string | undefined {
+  if (isUndefined(v)) {
+    return;
+  }
+
+  if (!isObject(v)) {
+    return `"${key}" must be an object, got ${JSON.stringify(v)}.`;
+  }
+
+  for (const [entry, value] of Object.entries(v)) {
+    if (!isValidValue(value)) {
+      return `"${key}.${entry}" must be ${expected}, got ${JSON.stringify(value)}.`;
+    }
+  }
+}
+
+/**
+ * Validates a server knobs configuration.
+ *
+ * @param v The value to validate.
+ * @returns A description of the first problem found or `undefined` in case `v` is valid.
+ */
+export function validateServerKnobsConfig(v: unknown): string | undefined {
+  if (!isObject(v)) {
+    return `Expected the configuration to be an object, got ${JSON.stringify(v)}.`;
+  }
+
+  return validateMap("metrics_enabled", v.metrics_enabled, isBoolean, "a boolean") ??
+    validateMap("pings_enabled", v.pings_enabled, isBoolean, "a boolean") ??
+    validateMap(
+      "event_sampling_rates",
+      v.event_sampling_rates,
+      (rate) => isNumber(rate) && rate >= 0 && rate <= 1,
+      "a number between 0 and 1"
+    );
+}
+
+/**
+ * Checks whether or not `v` is a valid server knobs configuration.
+ *
+ * @param v The value to verify.
+ * @returns Whether or not `v` is a valid server knobs configuration.
+ */
+export function isValidServerKnobsConfig(v: unknown): v is ServerKnobsConfig {
+  return isUndefined(validateServerKnobsConfig(v));
+}
+
+/**
+ * Merges two server knobs configurations.
+ *
+ * @param base The configuration to merge into.
+ * @param override The configuration which takes precedence.
+ * @returns The merged configuration.
+ */
+function mergeConfigs(base: ServerKnobsConfig, override: ServerKnobsConfig): ServerKnobsConfig {
+  return {
+    metrics_enabled: { ...base.metrics_enabled, ...override.metrics_enabled },
+    pings_enabled: { ...base.pings_enabled, ...override.pings_enabled },
+    event_sampling_rates: { ...base.event_sampling_rates, ...override.event_sampling_rates }
+  };
+}
+
+/**
+ * Holds the server knobs configuration, which allows enabling
+ * or disabling metrics and pings at runtime.
+ *
+ * The configuration is made of two layers:
+ *
+ * 1. The configuration applied through `Glean.applyServerKnobsConfig`. It is persisted,
+ *    so that it is still applied after a restart, and it is not affected by changes in the upload state.
+ * 2. The remote configuration, if any. It takes precedence over the first layer and
+ *    is not persisted here, the remote configuration caches it on its own.
+ */
+export default class ServerKnobs {
+  private store: Store;
+  // The configuration applied through `Glean.applyServerKnobsConfig`.
+  private appliedConfig: ServerKnobsConfig;
+  // The latest remote configuration.
+  private remoteConfig: ServerKnobsConfig = {};
+  // The configuration in effect, i.e. the remote configuration merged over the applied one.
+  private config: ServerKnobsConfig;
+
+  constructor() {
+    this.store = new Context.platform.Storage("serverKnobs");
+
+    const persisted = this.store.get();
+    if (isUndefined(persisted) || isValidServerKnobsConfig(persisted)) {
+      this.appliedConfig = persisted ?? {};
+    } else {
+      log(
+        LOG_TAG,
+        `Unexpected data found in the server knobs storage: ${JSON.stringify(persisted)}. Deleting.`,
+        LoggingLevel.Warn
+      );
+      this.store.delete([]);
+      this.appliedConfig = {};
+    }
+    this.config = this.appliedConfig;
+  }
+
+  /**
+   * Applies a new server knobs configuration.
+   *
+   * The new configuration is merged into the currently applied one,
+   * i.e. entries which are not present in the new configuration are kept.
+   *
+   * @param config The configuration to apply.
+   */
+  apply(config: ServerKnobsConfig): void {
+    this.appliedConfig = mergeConfigs(this.appliedConfig, config);
+    this.store.update(["metrics_enabled"], () => this.appliedConfig.metrics_enabled ?? {});
+    this.store.update(["pings_enabled"], () => this.appliedConfig.pings_enabled ?? {});
+    this.store.update(["event_sampling_rates"], () => this.appliedConfig.event_sampling_rates ?? {});
+    this.config = mergeConfigs(this.appliedConfig, this.remoteConfig);
+  }
+
+  /**
+   * Replaces the remote configuration.
+   *
+   * Contrary to `apply`, entries which are not present in the new configuration are dropped,
+   * so that removing an entry from the remote configuration reverts it to the applied configuration
+   * or to the default.
+   *
+   * @param config The remote configuration.
+   */
+  applyRemote(config: ServerKnobsConfig): void {
+    this.remoteConfig = config;
+    this.config = mergeConfigs(this.appliedConfig, this.remoteConfig);
+  }
+
+  /**
+   * Clears the current configuration, including the persisted one.
+   */
+  clear(): void {
+    this.appliedConfig = {};
+    this.remoteConfig = {};
+    this.config = {};
+    if (!isUndefined(this.store.get())) {
+      this.store.delete([]);
+    }
+  }
+
+  /**
+   * Gets whether the server knobs enable or disable a given metric.
+   *
+   * Configuration for the specific metric takes precedence over configuration for its category.
+   *
+   * @param metric The metric to check.
+   * @returns Whether the metric is enabled or `undefined` if the server knobs have no say on it.
+   */
+  isMetricEnabled(metric: MetricType): boolean | undefined {
+    return this.lookup(this.config.metrics_enabled, metric);
+  }
+
+  /**
+   * Gets the sampling rate the server knobs set for a given event.
+   *
+   * Configuration for the specific event takes precedence over configuration for its category.
+   *
+   * @param metric The event metric to check.
+   * @returns The sampling rate or `undefined` if the server knobs have no say on it.
+   */
+  getEventSamplingRate(metric: MetricType): number | undefined {
+    return this.lookup(this.config.event_sampling_rates, metric);
+  }
+
+  /**
+   * Gets whether the server knobs enable or disable a given ping.
+   *
+   * @param name The name of the ping to check.
+   * @returns Whether the ping is enabled or `undefined` if the server knobs have no say on it.
+   */
+  isPingEnabled(name: string): boolean | undefined {
+    return this.config.pings_enabled?.[name];
+  }
+
+  /**
+   * Looks up the value a map of the configuration holds for a given metric,
+   * falling back to the value for the metric category.
+   *
+   * @param map The map to look into.
+   * @param metric The metric to look up.
+   * @returns The value found or `undefined` if there is none.
+   */
+  private lookup<T>(map: Record<string, T> | undefined, metric: MetricType): T | undefined {
+    const entries = map ?? {};
+    const value = entries[metric.baseIdentifier()];
+    if (!isUndefined(value) || metric.category.length === 0) {
+      return value;
+    }
+
+    return entries[metric.category];
+  }
+}
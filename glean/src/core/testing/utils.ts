@@ -6,6 +6,7 @@ import type { ConfigurationInterface } from "../config.js";
 
 import TestPlatform from "../../platform/test/index.js";
 import { Context } from "../context.js";
+import { testResetEvents } from "../events/utils.js";
 import Glean from "../glean.js";
 
 /**
@@ -38,19 +39,36 @@ export function testInitializeGlean(
  * Resets Glean to an uninitialized state.
  * This is a no-op in case Glean has not been initialized.
  *
- * @param clearStores Whether or not to clear the events, metrics and pings databases on uninitialize.
+ * @param clearStores Whether or not to clear the events, metrics and pings databases,
+ *        the server knobs configuration and the cached remote configuration on uninitialize.
  */
 export function testUninitializeGlean(clearStores = true): void {
   if (Context.initialized) {
+    // Stop refreshing the remote configuration and scheduling the metrics and events pings.
+    Glean.remoteConfig?.stop();
+    Glean.metricsPingScheduler?.stop();
+    Context.eventsDatabase.cancelMaxAgeSubmission();
+    // Stop following the visibility of the application and the connectivity of the device.
+    Glean.removeVisibilityChangeListener?.();
+    Glean.removeVisibilityChangeListener = undefined;
+    Glean.removeEventsFlushListener?.();
+    Glean.removeEventsFlushListener = undefined;
+    Glean.pingUploader.removeListeners();
+
     if (clearStores) {
       Context.eventsDatabase.clearAll();
       Context.metricsDatabase.clearAll();
       Context.pingsDatabase.clearAll();
+      Context.serverKnobs.clear();
+      Glean.remoteConfig?.clear();
     }
 
     // Get back to an uninitialized state.
     Context.testUninitialize();
 
+    // Deregister all plugins.
+    testResetEvents();
+
     // Clear debug features cache
     Glean.preInitLogPings = undefined;
     Glean.preInitDebugViewTag = undefined;
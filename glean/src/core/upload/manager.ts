@@ -10,15 +10,20 @@ import type { UploadTask } from "./task.js";
 
 import { Context } from "../context.js";
 import log, { LoggingLevel } from "../log.js";
-import { isDeletionRequest } from "../pings/database.js";
+import { getMonotonicNow } from "../utils.js";
+import { getPingName, isDeletionRequest } from "../pings/database.js";
 import RateLimiter, { RateLimiterState } from "./rate_limiter.js";
 import { UploadResultStatus } from "./uploader.js";
 import PingUploadWorker from "./worker.js";
-import Policy from "./policy.js";
+import { policyFromOptions } from "./policy.js";
 import uploadTaskFactory, { UploadTaskTypes } from "./task.js";
 
 const UPLOAD_MANAGER_LOG_TAG = "core.Upload.PingUploadManager";
 
+// Statuses for which the server may request clients to wait before retrying,
+// through the `Retry-After` response header.
+const RETRY_AFTER_STATUSES = [429, 503];
+
 export interface QueuedPing extends PingInternalRepresentation {
   // The UUID identifier for this ping.
   readonly identifier: string;
@@ -42,16 +47,24 @@ class PingUploadManager {
   // A worker that will take care of actually uploading pings.
   private worker: PingUploadWorker;
 
-  // The number of times a recoverable failure has been processed by this.processPingUploadResponse.
+  // The number of recoverable failures processed by this.processPingUploadResponse
+  // since the last successful upload, in the current uploading window.
   private recoverableFailureCount = 0;
   // The number of times this.getUploadTasks has returned a Wait_UploadTask in a row.
   private waitAttemptCount = 0;
+  // The instant until which uploading is backed off after a recoverable failure, in milliseconds.
+  private backoffUntil?: number;
+  // Unregisters the listener resuming uploads once the device is back online, if any.
+  private removeOnlineListener?: () => void;
 
   constructor(
     config: Configuration,
     private readonly pingsDatabase: PingsDatabase,
-    private readonly policy = new Policy(),
-    private readonly rateLimiter = new RateLimiter()
+    private readonly policy = policyFromOptions(config.uploadPolicy),
+    private readonly rateLimiter = new RateLimiter(
+      config.uploadPolicy.rateLimitInterval,
+      config.uploadPolicy.maxPingsPerInterval
+    )
   ) {
     this.queue = [];
     this.processing = new Set();
@@ -65,6 +78,8 @@ class PingUploadManager {
     );
 
     pingsDatabase.attachObserver(this);
+
+    this.removeOnlineListener = Context.platform.connectivity?.onOnline(() => this.onOnline());
   }
 
   /// PUBLIC ///
@@ -80,7 +95,13 @@ class PingUploadManager {
       this.waitAttemptCount = 0;
     }
 
-    if (nextTask.type !== UploadTaskTypes.Upload && this.recoverableFailureCount > 0) {
+    // Recoverable failures are counted for the whole uploading window, which only ends
+    // once the worker is done and no upload is in flight. Backoff waits are part of the window.
+    if (
+      nextTask.type === UploadTaskTypes.Done &&
+      this.processing.size === 0 &&
+      this.recoverableFailureCount > 0
+    ) {
       this.recoverableFailureCount = 0;
     }
 
@@ -101,7 +122,7 @@ class PingUploadManager {
    *   200 - OK. Request accepted into the pipeline.
    *
    * 400 - 499 Unrecoverable error**
-   *   Any status on the 4XX range means something our client did is not correct.
+   *   Any status on the 4XX range, except for 429, means something our client did is not correct.
    *   It is unlikely that the client is going to recover from this by retrying,
    *   so in this case the corresponding ping file can also be deleted.
    *
@@ -116,8 +137,14 @@ class PingUploadManager {
    * Any other error**
    *   For any other error, a warning is logged and the ping is re-enqueued.
    *
+   *   The ping is only retried after a backoff time, which grows exponentially
+   *   with the number of failed upload attempts of the ping. The server may
+   *   override that time through the `Retry-After` header on 429 and 503 responses.
+   *
    *   _Known other errors:_
+   *   429 - too many requests
    *   500 - internal error
+   *   503 - service unavailable
    *
    * @param ping The ping that was just uploaded.
    * @param response The response of a ping upload attempt.
@@ -139,12 +166,13 @@ class PingUploadManager {
       );
 
       this.pingsDatabase.deletePing(identifier);
+      this.recoverableFailureCount = 0;
       return;
     }
 
     if (
       result === UploadResultStatus.UnrecoverableFailure ||
-      (status && status >= 400 && status < 500)
+      (status && status >= 400 && status < 500 && status !== 429)
     ) {
       log(
         UPLOAD_MANAGER_LOG_TAG,
@@ -156,6 +184,18 @@ class PingUploadManager {
       return;
     }
 
+    if (this.isOffline()) {
+      // Failures while offline say nothing about the ping itself or the server,
+      // so they do not count towards any of the upload limitations.
+      log(
+        UPLOAD_MANAGER_LOG_TAG,
+        `Unable to send ping ${identifier} while offline, will retry once back online.`,
+        LoggingLevel.Info
+      );
+      this.enqueuePing(ping);
+      return;
+    }
+
     log(
       UPLOAD_MANAGER_LOG_TAG,
       [
@@ -165,7 +205,18 @@ class PingUploadManager {
       LoggingLevel.Warn
     );
     this.recoverableFailureCount++;
-    this.enqueuePing(ping);
+
+    const attempts = (ping.attempts ?? 0) + 1;
+    this.pingsDatabase.updateUploadAttempts(identifier, attempts);
+    this.enqueuePing({ ...ping, attempts });
+
+    const retryAfter = status && RETRY_AFTER_STATUSES.includes(status)
+      ? response.retryAfter
+      : undefined;
+    this.backOff(this.getBackoffTime(attempts, retryAfter));
+
+    // Make sure the worker picks the ping up again once the backoff time is over.
+    this.startWorker();
   }
 
   /**
@@ -174,13 +225,26 @@ class PingUploadManager {
    * # Important
    *
    * This will _drop_ pending pings still enqueued.
-   * Only the `deletion-request` ping will still be processed.
+   * Only the `deletion-request` ping and the pings in `keepPings` will still be processed.
    *
+   * @param keepPings The names of other pings which must be kept.
    * @returns A promise which resolves once the clearing is complete
    *          and all upload attempts have been exhausted.
    */
-  clearPendingPingsQueue(): void {
-    this.queue = this.queue.filter((ping) => isDeletionRequest(ping));
+  clearPendingPingsQueue(keepPings: string[] = []): void {
+    this.queue = this.queue.filter(
+      (ping) => isDeletionRequest(ping) || keepPings.includes(getPingName(ping))
+    );
+  }
+
+  /**
+   * Stops listening for the device to be back online.
+   *
+   * Only meant to be called once this manager is no longer in use, e.g. when Glean is uninitialized.
+   */
+  removeListeners(): void {
+    this.removeOnlineListener?.();
+    this.removeOnlineListener = undefined;
   }
 
   /**
@@ -209,22 +273,85 @@ class PingUploadManager {
   update(identifier: string, ping: PingInternalRepresentation): void {
     this.enqueuePing({ identifier, ...ping });
 
-    // Since everything is happening synchronously, we cannot await the upload
-    // response before deleting. We delete before the ping is uploaded.
-    //
-    // `isBlocking` will only ever be true during testing after calling `this.worker.blockUploading()`.
-    if (!this.worker.isBlocking) {
-      this.processing.delete(identifier);
-      this.pingsDatabase.deletePing(identifier);
-    }
+    // The ping is only ever deleted from the database once `processPingUploadResponse`
+    // gets a final response for it, so that pings which fail to upload
+    // are picked up again by `scanPendingPings` on the next run.
+    this.startWorker();
+  }
+
+  /// PRIVATE ///
+  /**
+   * Checks whether or not the platform reports the device is offline.
+   *
+   * @returns Whether or not the device is offline.
+   */
+  private isOffline(): boolean {
+    const { connectivity } = Context.platform;
+    return !!connectivity && !connectivity.isOnline();
+  }
+
+  /**
+   * Resumes uploading once the device is back online.
+   *
+   * Pending pings are scanned from the pings database again, which triggers uploading.
+   * Any backoff is discarded, previous failures were most likely due to being offline.
+   */
+  private onOnline(): void {
+    log(
+      UPLOAD_MANAGER_LOG_TAG,
+      "Back online, resuming upload of pending pings.",
+      LoggingLevel.Debug
+    );
 
+    this.backoffUntil = undefined;
+    this.pingsDatabase.scanPendingPings();
+  }
+
+  /**
+   * Triggers uploading of enqueued pings.
+   */
+  private startWorker(): void {
     this.worker.work(
       () => this.getUploadTask(),
       (ping: QueuedPing, result: UploadResult) => this.processPingUploadResponse(ping, result)
     );
   }
 
-  /// PRIVATE ///
+  /**
+   * Gets the amount of time to wait before retrying after a recoverable failure.
+   *
+   * Unless the server has requested a specific amount of time, this grows exponentially
+   * with the number of failed attempts. Half of it is randomized, so that clients
+   * which failed at the same time do not all retry at the same time.
+   *
+   * @param attempts The number of failed upload attempts of the ping that just failed.
+   * @param retryAfter The amount of time requested by the server, in milliseconds, if any.
+   * @returns The amount of time to wait, in milliseconds.
+   */
+  private getBackoffTime(attempts: number, retryAfter?: number): number {
+    const { baseBackoffTime, maxBackoffTime } = this.policy;
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, maxBackoffTime);
+    }
+
+    const backoffTime = Math.min(baseBackoffTime * 2 ** (attempts - 1), maxBackoffTime);
+    return backoffTime / 2 + Math.random() * backoffTime / 2;
+  }
+
+  /**
+   * Backs off uploading for a given amount of time.
+   *
+   * In case uploading is already backed off for longer, this is a no-op.
+   *
+   * @param backoffTime The amount of time to back off for, in milliseconds.
+   */
+  private backOff(backoffTime: number): void {
+    const backoffUntil = getMonotonicNow() + backoffTime;
+    if (this.backoffUntil === undefined || backoffUntil > this.backoffUntil) {
+      this.backoffUntil = backoffUntil;
+    }
+  }
+
   /**
    * Enqueues a new ping at the end of the queue.
    *
@@ -258,6 +385,34 @@ class PingUploadManager {
     }
 
     if (this.queue.length > 0) {
+      if (this.isOffline()) {
+        log(
+          UPLOAD_MANAGER_LOG_TAG,
+          "Glean is offline. Pending pings will be uploaded once back online.",
+          LoggingLevel.Debug
+        );
+
+        // The worker is resumed by `onOnline`.
+        return uploadTaskFactory.done();
+      }
+
+      if (this.backoffUntil !== undefined) {
+        const remainingBackoffTime = this.backoffUntil - getMonotonicNow();
+        if (remainingBackoffTime > 0) {
+          log(
+            UPLOAD_MANAGER_LOG_TAG,
+            `Glean is backing off after an upload failure. Pending pings may be uploaded in ${remainingBackoffTime / 1000}s.`,
+            LoggingLevel.Debug
+          );
+
+          // Backoff waits do not count towards `maxWaitAttempts`,
+          // the worker must always be able to resume once the backoff time is over.
+          return uploadTaskFactory.wait(remainingBackoffTime, true);
+        }
+
+        this.backoffUntil = undefined;
+      }
+
       const { state, remainingTime } = this.rateLimiter.getState();
       if (state === RateLimiterState.Throttled) {
         log(
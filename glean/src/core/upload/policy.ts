@@ -2,6 +2,8 @@
  * License, v. 2.0. If a copy of the MPL was not distributed with this
  * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
 
+import type { UploadPolicyOptions } from "../config.js";
+
 /**
  * Policies for ping storage, uploading and requests.
  */
@@ -15,7 +17,31 @@ export default class Policy {
     // Limiting this is necessary to avoid infinite loops on requesting upload tasks.
     readonly maxRecoverableFailures: number = 3,
     // The maximum size in bytes a ping body may have to be eligible for upload.
-    readonly maxPingBodySize: number = 1024 * 1024 // 1MB
+    readonly maxPingBodySize: number = 1024 * 1024, // 1MB
+    // The base amount of time to wait before retrying after a recoverable failure, in milliseconds.
+    //
+    // This is doubled for each failed upload attempt of the same ping.
+    readonly baseBackoffTime: number = 1000, // 1s
+    // The maximum amount of time to wait before retrying after a recoverable failure, in milliseconds.
+    //
+    // This also applies to the time requested by the server through the `Retry-After` header.
+    readonly maxBackoffTime: number = 10 * 60 * 1000 // 10min
   ) {}
 }
 
+
+/**
+ * Builds a policy from the upload policy options of a Glean configuration.
+ *
+ * @param options The upload policy options.
+ * @returns The policy, with default values for the options that are not set.
+ */
+export function policyFromOptions(options: UploadPolicyOptions): Policy {
+  return new Policy(
+    options.maxWaitAttempts,
+    options.maxRecoverableFailures,
+    options.maxPingBodySize,
+    options.baseBackoffTime,
+    options.maxBackoffTime
+  );
+}
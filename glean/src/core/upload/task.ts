@@ -21,7 +21,7 @@ export const enum UploadTaskTypes {
 //
 // An "uploading window" starts when a requester gets a new
 // `Upload_UploadTask` response and finishes when they
-// finally get a `Done_UploadTask` or `Wait_UploadTask` response.
+// finally get a `Done_UploadTask` response.
 export type Done_UploadTask = {
   type: UploadTaskTypes.Done
 };
@@ -30,10 +30,12 @@ export type Done_UploadTask = {
 // thus the worker should wait and come back later.
 //
 // Contains the amount of time in milliseconds
-// the requester should wait before requesting a new task.
+// the requester should wait before requesting a new task
+// and whether the wait is a back off after a recoverable upload failure.
 export type Wait_UploadTask = {
   type: UploadTaskTypes.Wait,
   remainingTime: number,
+  backoff: boolean,
 };
 
 // A flag signaling there are no remaining upload tasks and worker is done (for now).
@@ -53,9 +55,10 @@ export default {
     type: UploadTaskTypes.Done
   }),
 
-  wait: (remainingTime: number): Wait_UploadTask => ({
+  wait: (remainingTime: number, backoff = false): Wait_UploadTask => ({
     type: UploadTaskTypes.Wait,
     remainingTime,
+    backoff,
   }),
 
   upload: (ping: QueuedPing): Upload_UploadTask => ({
@@ -35,10 +35,40 @@ export class UploadResult {
     // The status of an upload attempt
     readonly result: UploadResultStatus,
     // The status is only present if `result` is UploadResultStatus.Success
-    readonly status?: number
+    readonly status?: number,
+    // The amount of time to wait before retrying, in milliseconds,
+    // as requested by the server through the `Retry-After` response header.
+    readonly retryAfter?: number
   ) {}
 }
 
+/**
+ * Parses the value of a `Retry-After` response header.
+ *
+ * The value may either be a number of seconds or an HTTP date.
+ *
+ * @param value The value of the header, if any.
+ * @returns The amount of time to wait before retrying, in milliseconds,
+ *          or `undefined` in case the value is missing or invalid.
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return;
+  }
+
+  return Math.max(0, date - Date.now());
+}
+
 /**
  * Uploader abstract class, actual uploading logic varies per platform.
  */
@@ -61,6 +91,19 @@ export abstract class Uploader {
    * @returns whether or not custom headers are supported.
    */
   abstract supportsCustomHeaders(): boolean;
+
+  /**
+   * Whether or not this uploader supports submitting the debug headers,
+   * i.e. `X-Debug-ID` and `X-Source-Tags`.
+   *
+   * Uploaders which do not support custom headers may still support these,
+   * e.g. by sending them as query parameters.
+   *
+   * @returns whether or not the debug headers are supported.
+   */
+  supportsDebugHeaders(): boolean {
+    return this.supportsCustomHeaders();
+  }
 }
 
 export default Uploader;
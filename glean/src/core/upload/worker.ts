@@ -12,14 +12,33 @@ import Policy from "./policy.js";
 import { UploadResult, UploadResultStatus } from "./uploader.js";
 import { UploadTaskTypes } from "./task.js";
 import { GLEAN_VERSION } from "../constants.js";
+import { isString } from "../utils.js";
 import { PingBodyOverflowError } from "./ping_body_overflow_error.js";
 import PingRequest from "./ping_request.js";
 
 const PING_UPLOAD_WORKER_LOG_TAG = "core.Upload.PingUploadWorker";
 
+/**
+ * Gets the body of a ping which was encoded before being recorded, e.g. by the encryption plugin.
+ *
+ * Encoded payloads are recorded as `{ "payload": "<encoded body>" }`,
+ * along with the `Content-Type` header describing the encoding.
+ *
+ * @param ping The ping to get the encoded body from.
+ * @returns The encoded body and its content type or `undefined` in case the ping is not encoded.
+ */
+function getEncodedBody(ping: QueuedPing): { body: string, contentType: string } | undefined {
+  const contentType = ping.headers?.["Content-Type"];
+  if (isString(contentType) && isString(ping.payload.payload)) {
+    return { body: ping.payload.payload, contentType };
+  }
+}
+
 class PingUploadWorker {
   // Whether or not someone is blocking on the currentJob.
   isBlocking = false;
+  // The id of the timer scheduled to resume work after a `Wait` task, if any.
+  private waitTimeout?: number;
 
   constructor(
     private readonly uploader: Uploader,
@@ -34,21 +53,21 @@ class PingUploadWorker {
    *
    * 1. Includes Glean required headers to the ping;
    *    These are the headers described in https://mozilla.github.io/glean/book/user/pings/index.html?highlight=headers#submitted-headers
-   * 2. Stringifies the body.
+   * 2. Stringifies the body. Encoded payloads are sent as the bare encoded body instead.
    *
    * @param ping The ping to include the headers in.
    * @returns The updated ping.
    */
   private buildPingRequest(ping: QueuedPing): PingRequest<string | Uint8Array> {
-    let headers = ping.headers || {};
-    headers = {
+    const encoded = getEncodedBody(ping);
+    const headers: Record<string, string> = {
       ...ping.headers,
-      "Content-Type": "application/json; charset=utf-8",
+      "Content-Type": encoded ? encoded.contentType : "application/json; charset=utf-8",
       Date: new Date().toISOString(),
       "X-Telemetry-Agent": `Glean/${GLEAN_VERSION} (JS on ${(Context.platform).info.os()})`
     };
 
-    const stringifiedBody = JSON.stringify(ping.payload);
+    const stringifiedBody = encoded ? encoded.body : JSON.stringify(ping.payload);
 
     if (stringifiedBody.length > this.policy.maxPingBodySize) {
       throw new PingBodyOverflowError(
@@ -60,6 +79,44 @@ class PingUploadWorker {
     return new PingRequest(ping.identifier, headers, stringifiedBody, this.policy.maxPingBodySize);
   }
 
+  /**
+   * Gets the uploader to use for the next upload attempt.
+   *
+   * @param ping The ping to upload.
+   * @returns The uploader to use.
+   */
+  private getUploader(ping: QueuedPing): Uploader {
+    // Some options require us to submit custom headers. Unfortunately not all the
+    // uploaders support them (e.g. `sendBeacon`). In case headers are required, switch
+    // back to the default uploader that, for now, supports headers.
+    const needsHeaders = !(
+      (Context.config.sourceTags === undefined) && (Context.config.debugViewTag === undefined)
+    );
+    const { lifecycle, beaconUploader } = Context.platform;
+
+    // Requests may be cancelled at any time while the application is hidden or being closed,
+    // so prefer the beacon uploader if the platform has one. This is only done when
+    // the default uploader is in use, custom uploaders are always respected.
+    //
+    // Beacon uploaders may support the debug headers only, encoded payloads
+    // still need their `Content-Type` header and are never sent through them.
+    if (
+      beaconUploader &&
+      lifecycle?.isHidden() &&
+      this.uploader === Context.platform.uploader &&
+      (beaconUploader.supportsDebugHeaders() || !needsHeaders) &&
+      (beaconUploader.supportsCustomHeaders() || !getEncodedBody(ping))
+    ) {
+      return beaconUploader;
+    }
+
+    if (!this.uploader.supportsCustomHeaders() && needsHeaders) {
+      return Context.platform.uploader;
+    }
+
+    return this.uploader;
+  }
+
   /**
    * Attempts to upload a ping.
    *
@@ -69,19 +126,7 @@ class PingUploadWorker {
   private async attemptPingUpload(ping: QueuedPing): Promise<UploadResult> {
     try {
       const finalPing = this.buildPingRequest(ping);
-
-      let safeUploader = this.uploader;
-      if (!this.uploader.supportsCustomHeaders()) {
-        // Some options require us to submit custom headers. Unfortunately not all the
-        // uploaders support them (e.g. `sendBeacon`). In case headers are required, switch
-        // back to the default uploader that, for now, supports headers.
-        const needsHeaders = !(
-          (Context.config.sourceTags === undefined) && (Context.config.debugViewTag === undefined)
-        );
-        if (needsHeaders) {
-          safeUploader = Context.platform.uploader;
-        }
-      }
+      const safeUploader = this.getUploader(ping);
 
       // The POST call has to be asynchronous. Once the API call is triggered,
       // we rely on the browser's "keepalive" header.
@@ -104,7 +149,8 @@ class PingUploadWorker {
   /**
    * Kick start non-blocking asynchronous internal loop to get and act on upload tasks.
    *
-   * If a job is currently ongoing, this is a no-op.
+   * If the worker is already scheduled to resume after a `Wait` task, this is a no-op.
+   * Any new task will be picked up once it resumes.
    *
    * @param getUploadTask A function that returns an UploadTask.
    * @param processUploadResponse A function that processes an UploadResponse.
@@ -113,6 +159,10 @@ class PingUploadWorker {
     getUploadTask: () => UploadTask,
     processUploadResponse: (ping: QueuedPing, result: UploadResult) => void
   ): void {
+    if (this.waitTimeout !== undefined) {
+      return;
+    }
+
     while (true) {
       try {
         const task = getUploadTask();
@@ -132,6 +182,17 @@ class PingUploadWorker {
           continue;
         }
 
+        case UploadTaskTypes.Wait:
+          log(
+            PING_UPLOAD_WORKER_LOG_TAG,
+            task.backoff
+              ? `Upload is backing off after a failure, will attempt to resume in ${task.remainingTime / 1000}s.`
+              : `Upload is throttled, will attempt to resume in ${task.remainingTime / 1000}s.`,
+            LoggingLevel.Debug
+          );
+          this.scheduleWork(task.remainingTime, getUploadTask, processUploadResponse);
+          return;
+
         case UploadTaskTypes.Done:
           return;
         }
@@ -145,6 +206,24 @@ class PingUploadWorker {
     }
   }
 
+  /**
+   * Schedules the worker to start asking for upload tasks again after a given amount of time.
+   *
+   * @param waitTime The amount of time to wait, in milliseconds.
+   * @param getUploadTask A function that returns an UploadTask.
+   * @param processUploadResponse A function that processes an UploadResponse.
+   */
+  private scheduleWork(
+    waitTime: number,
+    getUploadTask: () => UploadTask,
+    processUploadResponse: (ping: QueuedPing, result: UploadResult) => void
+  ): void {
+    this.waitTimeout = Context.platform.timer.setTimeout(() => {
+      this.waitTimeout = undefined;
+      this.work(getUploadTask, processUploadResponse);
+    }, waitTime);
+  }
+
   /**
    * Block the uploader from uploading pings.
    */
@@ -311,3 +311,23 @@ export function getCurrentTimeInNanoSeconds(): number {
 export function isWindowObjectUnavailable(): boolean {
   return typeof window === "undefined";
 }
+
+/**
+ * Hashes a string into a stable number in the [0, 1) interval.
+ *
+ * Uses the 32-bit FNV-1a hash, which is fast and well distributed,
+ * but must never be relied upon for anything security related.
+ *
+ * @param v The string to hash.
+ * @returns A number in the [0, 1) interval, always the same for the same string.
+ */
+export function hashToUnitInterval(v: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < v.length; i++) {
+    hash ^= v.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  // Convert to an unsigned integer before scaling it down.
+  return (hash >>> 0) / 0x100000000;
+}
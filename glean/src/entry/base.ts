@@ -5,6 +5,7 @@
 import Glean from "../core/glean.js";
 import type { ConfigurationInterface } from "../core/config.js";
 import type Platform from "../platform/index.js";
+import type { RecordedExperiment } from "../core/metrics/types/experiment.js";
 
 export const base = (platform: Platform) => {
   return {
@@ -44,6 +45,71 @@ export const base = (platform: Platform) => {
       Glean.setUploadEnabled(flag);
     },
 
+    /**
+     * Sets whether collection is enabled or not.
+     *
+     * When collection is disabled, metrics aren't recorded at all and no data is uploaded,
+     * except for pings which do not follow collection. Those keep recording and submitting
+     * on their own `enabled` flag.
+     *
+     * When disabling, all pending metrics, events and queued pings are cleared,
+     * except for the data of pings which do not follow collection.
+     *
+     * When enabling, the core Glean metrics are recreated.
+     *
+     * If the value of this flag is not actually changed, this is a no-op.
+     *
+     * If Glean has not been initialized yet, this is also a no-op.
+     *
+     * @param flag When true, enable metric collection.
+     */
+    setCollectionEnabled(flag: boolean): void {
+      Glean.setCollectionEnabled(flag);
+    },
+
+    /**
+     * Enables or disables a given ping at runtime, regardless of collection.
+     *
+     * Submitting a disabled ping is a no-op and metrics are not recorded to it.
+     * When disabling, data pending to be sent in the ping is dropped.
+     *
+     * @param name The name of the ping.
+     * @param enabled Whether or not the ping should be enabled.
+     */
+    setPingEnabled(name: string, enabled: boolean): void {
+      Glean.setPingEnabled(name, enabled);
+    },
+
+    /**
+     * Signals that the application became active, e.g. the page became visible.
+     *
+     * Submits the `baseline` ping with the `active` reason and starts measuring
+     * the duration of the foreground session.
+     *
+     * When the `enableAutoLifecyclePings` configuration option is set, this is called automatically
+     * on platforms which are able to tell the visibility of the application.
+     * Applications which define activity themselves may also call it directly.
+     */
+    handleClientActive(): void {
+      Glean.handleClientActive();
+    },
+
+    /**
+     * Signals that the application became inactive, e.g. the page was hidden.
+     *
+     * Stops measuring the duration of the foreground session
+     * and submits the `baseline` ping with the `inactive` reason.
+     * On platforms which are not able to tell the visibility of the application,
+     * the `events` ping is submitted with the `inactive` reason as well, in case events are batched.
+     *
+     * When the `enableAutoLifecyclePings` configuration option is set, this is called automatically
+     * on platforms which are able to tell the visibility of the application.
+     * Applications which define activity themselves may also call it directly.
+     */
+    handleClientInactive(): void {
+      Glean.handleClientInactive();
+    },
+
     /**
      * Sets the `logPings` debug option.
      *
@@ -81,6 +147,57 @@ export const base = (platform: Platform) => {
      */
     setSourceTags(value: string[]): void {
       Glean.setSourceTags(value);
+    },
+
+    /**
+     * Applies a server knobs configuration.
+     *
+     * Server knobs allow enabling or disabling metrics, whole metric categories and pings at runtime,
+     * overriding the build time configuration. The configuration is persisted
+     * and merged with any previously applied configuration.
+     * The remote configuration, if any, takes precedence over it.
+     *
+     * @param json The configuration as a JSON string, e.g.
+     *        `{ "metrics_enabled": { "category.name": false }, "pings_enabled": { "ping": false } }`.
+     */
+    applyServerKnobsConfig(json: string): void {
+      Glean.applyServerKnobsConfig(json);
+    },
+
+    /**
+     * Indicates that an experiment is running.
+     *
+     * Glean will add an experiment annotation that is sent with all pings,
+     * until the experiment is set inactive or the application is restarted.
+     *
+     * @param experimentId The id of the active experiment (maximum 100 characters).
+     * @param branch The experiment branch (maximum 100 characters).
+     * @param extra Optional metadata to output with the ping
+     *        (maximum 20 entries, keys and values of maximum 100 characters).
+     */
+    setExperimentActive(experimentId: string, branch: string, extra?: Record<string, string>): void {
+      Glean.setExperimentActive(experimentId, branch, extra);
+    },
+
+    /**
+     * Indicates that an experiment is no longer running.
+     *
+     * @param experimentId The id of the experiment to deactivate.
+     */
+    setExperimentInactive(experimentId: string): void {
+      Glean.setExperimentInactive(experimentId);
+    },
+
+    /**
+     * Test-only API
+     *
+     * Gets the data recorded for an active experiment.
+     *
+     * @param experimentId The id of the experiment.
+     * @returns The experiment branch and extras or `undefined` if the experiment is not active.
+     */
+    testGetExperimentData(experimentId: string): RecordedExperiment | undefined {
+      return Glean.testGetExperimentData(experimentId);
     }
   };
 };
@@ -0,0 +1,23 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import platform from "../platform/node/index.js";
+import { setStorageDirectory } from "../platform/node/storage.js";
+import { base } from "./base.js";
+
+export { default as Uploader, UploadResult, UploadResultStatus } from "../core/upload/uploader.js";
+export default {
+  ...base(platform),
+
+  /**
+   * Sets the directory in which Glean persists its data.
+   *
+   * This function **must** be called before initialize. Defaults to `~/.glean`.
+   *
+   * @param directory The path to the data directory. It is created if it doesn't exist.
+   */
+  setDataPath(directory: string): void {
+    setStorageDirectory(directory);
+  }
+};
@@ -6,7 +6,12 @@ import type PingRequest from "../../core/upload/ping_request.js";
 
 import log, { LoggingLevel } from "../../core/log.js";
 import Uploader from "../../core/upload/uploader.js";
-import { DEFAULT_UPLOAD_TIMEOUT_MS, UploadResultStatus, UploadResult } from "../../core/upload/uploader.js";
+import {
+  DEFAULT_UPLOAD_TIMEOUT_MS,
+  UploadResultStatus,
+  UploadResult,
+  parseRetryAfter
+} from "../../core/upload/uploader.js";
 
 const LOG_TAG = "platform.browser.FetchUploader";
 
@@ -65,7 +70,11 @@ class BrowserFetchUploader extends Uploader {
     }
 
     clearTimeout(timeout);
-    return new UploadResult(UploadResultStatus.Success, response.status);
+    return new UploadResult(
+      UploadResultStatus.Success,
+      response.status,
+      parseRetryAfter(response.headers.get("Retry-After"))
+    );
   }
 
   supportsCustomHeaders(): boolean {
@@ -0,0 +1,44 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type RemoteConfigFetcher from "../../core/remote_config_fetcher.js";
+
+import log, { LoggingLevel } from "../../core/log.js";
+import { DEFAULT_FETCH_TIMEOUT_MS } from "../../core/remote_config_fetcher.js";
+
+const LOG_TAG = "platform.browser.RemoteConfigFetcher";
+
+const BrowserRemoteConfigFetcher: RemoteConfigFetcher = {
+  async fetch(url: string): Promise<string | undefined> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), DEFAULT_FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(url, {
+        method: "GET",
+        // Strips any cookies or authorization headers from the request.
+        credentials: "omit",
+        signal: controller.signal,
+        redirect: "error",
+      });
+
+      if (!response.ok) {
+        log(
+          LOG_TAG,
+          `Unexpected status code ${response.status} while fetching the remote configuration.`,
+          LoggingLevel.Error
+        );
+        return;
+      }
+
+      return await response.text();
+    } catch (e) {
+      log(LOG_TAG, ["Network error while fetching the remote configuration.\n", e], LoggingLevel.Error);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+};
+
+export default BrowserRemoteConfigFetcher;
@@ -4,39 +4,89 @@
 
 import type PingRequest from "../../core/upload/ping_request.js";
 
+import { strToU8 } from "fflate";
 import log, { LoggingLevel } from "../../core/log.js";
 import Uploader from "../../core/upload/uploader.js";
 import { DEFAULT_UPLOAD_TIMEOUT_MS, UploadResultStatus, UploadResult } from "../../core/upload/uploader.js";
+import BrowserFetchUploader from "./fetch_uploader.js";
 
 const LOG_TAG = "platform.browser.SendBeaconUploader";
 
+// Browsers limit the amount of data that may be queued through `sendBeacon`, 64KB in most of them.
+export const MAX_BEACON_PAYLOAD_SIZE = 64 * 1024;
+
+// Headers which cannot be sent through `sendBeacon` and are sent as query parameters instead.
+//
+// The ingestion edge accepts these as query parameters under the same name as the headers.
+const QUERY_PARAMETER_HEADERS = ["Content-Encoding", "X-Debug-ID", "X-Source-Tags"];
+
+/**
+ * Appends the headers that cannot be sent through `sendBeacon` to a URL as query parameters.
+ *
+ * @param url The URL to append the query parameters to.
+ * @param headers The headers of the ping request.
+ * @returns The final URL.
+ */
+export function buildBeaconURL(url: string, headers: Record<string, string>): string {
+  const parameters = QUERY_PARAMETER_HEADERS
+    .filter(name => !!headers[name])
+    .map(name => `${name}=${encodeURIComponent(headers[name])}`);
+
+  if (parameters.length === 0) {
+    return url;
+  }
+
+  return `${url}${url.includes("?") ? "&" : "?"}${parameters.join("&")}`;
+}
+
 class BrowserSendBeaconUploader extends Uploader {
   timeoutMs: number = DEFAULT_UPLOAD_TIMEOUT_MS;
 
-  // eslint-disable-next-line @typescript-eslint/require-await
   async post(
     url: string,
     pingRequest: PingRequest<string | Uint8Array>
   ): Promise<UploadResult> {
+    // We expect to have a gzipped payload.
+    const gzipRequest = pingRequest.asCompressedPayload();
+    const { payload, headers } = gzipRequest;
+
+    const payloadSize = typeof payload === "string" ? strToU8(payload).length : payload.length;
+    if (payloadSize > MAX_BEACON_PAYLOAD_SIZE) {
+      log(
+        LOG_TAG,
+        `Ping ${pingRequest.identifier} is too large to be sent through \`sendBeacon\`. Falling back to \`fetch\`.`,
+        LoggingLevel.Debug
+      );
+      return BrowserFetchUploader.post(url, gzipRequest);
+    }
+
     // While the most appropriate type would be "application/json",
     // using that would cause to send CORS preflight requests. We
     // instead send the content as plain text and rely on the backend
-    // to do the appropriate validation/parsing.
-    const wasQueued = navigator.sendBeacon(url, pingRequest.payload);
+    // to do the appropriate validation/parsing. The encoding of the
+    // body is signaled through the `Content-Encoding` query parameter.
+    const body = new Blob([payload], { type: "text/plain" });
+    const wasQueued = navigator.sendBeacon(buildBeaconURL(url, headers), body);
     if (wasQueued) {
       // Unfortunately we don't know much more other than data was enqueued,
       // it is the agent's responsibility to manage the submission. The only
       // thing we can do is remove this from our internal queue.
       return new UploadResult(UploadResultStatus.Success, 200);
     }
-    log(LOG_TAG, "The `sendBeacon` call was not serviced by the browser. Deleting data.", LoggingLevel.Error);
-    // If the agent says there's a problem, there's not so much we can do.
-    return new UploadResult(UploadResultStatus.UnrecoverableFailure);
+    // If the agent says there's a problem, there's not so much we can do now.
+    // Keep the ping around, so that it is sent on the next load.
+    log(LOG_TAG, "The `sendBeacon` call was not serviced by the browser. Will retry later.", LoggingLevel.Error);
+    return new UploadResult(UploadResultStatus.RecoverableFailure);
   }
 
   supportsCustomHeaders(): boolean {
     return false;
   }
+
+  supportsDebugHeaders(): boolean {
+    // The debug headers are sent as query parameters.
+    return true;
+  }
 }
 
 export default new BrowserSendBeaconUploader();
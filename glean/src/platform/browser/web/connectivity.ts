@@ -0,0 +1,25 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Connectivity from "../../../core/connectivity.js";
+
+const WebConnectivity: Connectivity = {
+  isOnline(): boolean {
+    // `navigator.onLine` may report `true` when the network is not actually reachable,
+    // but it is reliable when it reports `false`. In case of doubt, assume we are online.
+    return typeof navigator === "undefined" || navigator.onLine !== false;
+  },
+
+  onOnline(callback: () => void): () => void {
+    // `window` is not available e.g. during server side rendering.
+    if (typeof window === "undefined") {
+      return () => undefined;
+    }
+
+    window.addEventListener("online", callback);
+    return () => window.removeEventListener("online", callback);
+  }
+};
+
+export default WebConnectivity;
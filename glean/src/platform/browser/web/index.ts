@@ -5,15 +5,23 @@
 import type Platform from "../../index.js";
 
 import uploader from "../fetch_uploader.js";
+import beaconUploader from "../sendbeacon_uploader.js";
+import remoteConfigFetcher from "../remote_config_fetcher.js";
 import info from "./platform_info.js";
 import Storage from "./storage.js";
+import connectivity from "./connectivity.js";
+import lifecycle from "./lifecycle.js";
 
 const WebPlatform: Platform = {
   Storage,
   uploader,
   info,
   timer: { setTimeout, clearTimeout },
-  name: "web"
+  name: "web",
+  connectivity,
+  lifecycle,
+  beaconUploader,
+  remoteConfigFetcher
 };
 
 export default WebPlatform;
@@ -0,0 +1,76 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Lifecycle from "../../../core/lifecycle.js";
+
+// Whether or not the page has been hidden through `pagehide` and not shown again since.
+//
+// Some browsers fire `pagehide` before changing the visibility state of the page,
+// so the visibility state alone is not enough to tell whether the page is being closed.
+let pageHidden = false;
+
+// The callbacks to call whenever the page is hidden or shown again.
+const visibilityChangeCallbacks: ((hidden: boolean) => void)[] = [];
+// Whether or not the page was hidden the last time its state changed.
+let wasHidden = false;
+
+/**
+ * Checks whether or not the page is currently hidden or being closed.
+ *
+ * @returns Whether or not the page is hidden.
+ */
+function isHidden(): boolean {
+  return pageHidden || (typeof document !== "undefined" && document.visibilityState === "hidden");
+}
+
+/**
+ * Calls the visibility change callbacks, in case the page was hidden or shown since the last call.
+ *
+ * `pagehide` and `visibilitychange` may both be fired when the page is being closed,
+ * the callbacks are only called for the first of them.
+ */
+function onStateChange(): void {
+  const hidden = isHidden();
+  if (hidden === wasHidden) {
+    return;
+  }
+
+  wasHidden = hidden;
+  for (const callback of visibilityChangeCallbacks) {
+    callback(hidden);
+  }
+}
+
+// `window` is not available e.g. during server side rendering.
+if (typeof window !== "undefined") {
+  wasHidden = isHidden();
+
+  // Listen on the capture phase, so that the state is already up to date
+  // by the time any listeners registered by the application are called.
+  window.addEventListener("pagehide", () => {
+    pageHidden = true;
+    onStateChange();
+  }, { capture: true });
+  window.addEventListener("pageshow", () => {
+    pageHidden = false;
+    onStateChange();
+  }, { capture: true });
+  document.addEventListener("visibilitychange", onStateChange, { capture: true });
+}
+
+const WebLifecycle: Lifecycle = {
+  isHidden,
+
+  onVisibilityChange(callback: (hidden: boolean) => void): () => void {
+    visibilityChangeCallbacks.push(callback);
+    return () => {
+      const index = visibilityChangeCallbacks.indexOf(callback);
+      if (index !== -1) {
+        visibilityChangeCallbacks.splice(index, 1);
+      }
+    };
+  }
+};
+
+export default WebLifecycle;
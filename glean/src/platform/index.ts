@@ -5,6 +5,9 @@
 import type Store from "../core/storage.js";
 import type Uploader from "../core/upload/uploader.js";
 import type PlatformInfo from "../core/platform_info.js";
+import type Connectivity from "../core/connectivity.js";
+import type Lifecycle from "../core/lifecycle.js";
+import type RemoteConfigFetcher from "../core/remote_config_fetcher.js";
 
 export type StorageBuilder = new (rootKey: string) => Store;
 
@@ -27,6 +30,18 @@ interface Platform {
   };
   // The name of the platform, useful for logging and debugging purposes
   name: string;
+  // The environment specific implementation of network connectivity checks,
+  // only available on platforms which are able to tell whether or not the device is online
+  connectivity?: Connectivity;
+  // The environment specific implementation of application lifecycle checks,
+  // only available on platforms on which the application may be hidden or closed at any time
+  lifecycle?: Lifecycle;
+  // The environment specific uploader to use while the application is hidden or being closed,
+  // only available on platforms which provide a way to send requests that outlive the application
+  beaconUploader?: Uploader;
+  // The environment specific implementation of HTTP GET requests for the remote configuration,
+  // only available on platforms which are able to fetch it
+  remoteConfigFetcher?: RemoteConfigFetcher;
 }
 
 export default Platform;
@@ -0,0 +1,48 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Platform from "../index.js";
+
+import uploader from "./uploader.js";
+import info from "./platform_info.js";
+import Storage from "./storage.js";
+import remoteConfigFetcher from "./remote_config_fetcher.js";
+
+/**
+ * Calls a function after a given delay, without keeping the process alive until then.
+ *
+ * Glean arms long-lived timers, e.g. to schedule the `metrics` ping,
+ * which must not prevent short-lived scripts from exiting.
+ *
+ * @param cb The function to call.
+ * @param timeout The delay in milliseconds.
+ * @returns The identifier of the timer, to be used with `clearUnrefTimeout`.
+ */
+function setUnrefTimeout(cb: () => void, timeout: number): number {
+  const timer: NodeJS.Timeout = setTimeout(cb, timeout);
+  timer.unref();
+  // Node.js keeps track of the timers which were converted to their numeric identifier,
+  // so that they can be cleared through that identifier.
+  return timer[Symbol.toPrimitive]();
+}
+
+/**
+ * Cancels a timer armed through `setUnrefTimeout`.
+ *
+ * @param id The identifier of the timer.
+ */
+function clearUnrefTimeout(id: number): void {
+  clearTimeout(id);
+}
+
+const NodePlatform: Platform = {
+  Storage,
+  uploader,
+  info,
+  timer: { setTimeout: setUnrefTimeout, clearTimeout: clearUnrefTimeout },
+  name: "node",
+  remoteConfigFetcher
+};
+
+export default NodePlatform;
@@ -0,0 +1,51 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type PlatformInfo from "../../core/platform_info.js";
+
+import os from "os";
+
+import { KnownOperatingSystems } from "../../core/platform_info.js";
+
+const NodePlatformInfo: PlatformInfo = {
+  os(): KnownOperatingSystems {
+    switch (os.platform()) {
+    case "win32":
+    case "cygwin":
+      return KnownOperatingSystems.Windows;
+    case "darwin":
+      return KnownOperatingSystems.MacOS;
+    case "android":
+      return KnownOperatingSystems.Android;
+    case "linux":
+      return KnownOperatingSystems.Linux;
+    case "freebsd":
+      return KnownOperatingSystems.FreeBSD;
+    case "netbsd":
+      return KnownOperatingSystems.NetBSD;
+    case "openbsd":
+      return KnownOperatingSystems.OpenBSD;
+    case "sunos":
+      return KnownOperatingSystems.SunOS;
+    case "aix":
+      return KnownOperatingSystems.AIX;
+    default:
+      return KnownOperatingSystems.Unknown;
+    }
+  },
+
+  osVersion(): string {
+    return os.release() || "Unknown";
+  },
+
+  arch(): string {
+    return os.arch() || "Unknown";
+  },
+
+  locale(): string {
+    return Intl.DateTimeFormat().resolvedOptions().locale || "und";
+  }
+};
+
+export default NodePlatformInfo;
@@ -0,0 +1,66 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type RemoteConfigFetcher from "../../core/remote_config_fetcher.js";
+
+import http from "http";
+import https from "https";
+
+import log, { LoggingLevel } from "../../core/log.js";
+import { DEFAULT_FETCH_TIMEOUT_MS } from "../../core/remote_config_fetcher.js";
+
+const LOG_TAG = "platform.node.RemoteConfigFetcher";
+
+const NodeRemoteConfigFetcher: RemoteConfigFetcher = {
+  fetch(url: string): Promise<string | undefined> {
+    return new Promise<string | undefined>((resolve) => {
+      let request: http.ClientRequest;
+      try {
+        // Plain HTTP is only ever allowed by the configuration in testing mode.
+        const client = url.startsWith("http:") ? http : https;
+        request = client.get(url, { timeout: DEFAULT_FETCH_TIMEOUT_MS }, (response) => {
+          const status = response.statusCode ?? 0;
+          if (status < 200 || status >= 300) {
+            // Discard the response body.
+            response.resume();
+            log(
+              LOG_TAG,
+              `Unexpected status code ${status} while fetching the remote configuration.`,
+              LoggingLevel.Error
+            );
+            resolve(undefined);
+            return;
+          }
+
+          let body = "";
+          response.setEncoding("utf8");
+          response.on("data", (chunk: string) => { body += chunk; });
+          response.on("end", () => resolve(body));
+          response.on("error", (e) => {
+            log(LOG_TAG, ["Error while reading the remote configuration.\n", e], LoggingLevel.Error);
+            resolve(undefined);
+          });
+        });
+      } catch (e) {
+        // `get` throws synchronously in case the URL is invalid.
+        log(LOG_TAG, ["Unable to build request to fetch the remote configuration.\n", e], LoggingLevel.Error);
+        resolve(undefined);
+        return;
+      }
+
+      request.on("timeout", () => {
+        log(LOG_TAG, "Timeout while fetching the remote configuration.", LoggingLevel.Error);
+        // This will cause the "error" event to be emitted.
+        request.destroy();
+      });
+
+      request.on("error", (e) => {
+        log(LOG_TAG, ["Network error while fetching the remote configuration.\n", e], LoggingLevel.Error);
+        resolve(undefined);
+      });
+    });
+  }
+};
+
+export default NodeRemoteConfigFetcher;
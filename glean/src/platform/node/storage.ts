@@ -0,0 +1,160 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type Store from "../../core/storage.js";
+import type { StorageIndex } from "../../core/storage.js";
+import type { JSONObject, JSONValue } from "../../core/utils.js";
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+import log, { LoggingLevel } from "../../core/log.js";
+import {
+  deleteKeyFromNestedObject,
+  getValueFromNestedObject,
+  updateNestedObject
+} from "../../core/storage.js";
+import { isObject } from "../../core/utils.js";
+
+const LOG_TAG = "platform.node.Storage";
+
+// The directory in which each store persists its file.
+let storageDirectory = path.join(os.homedir(), ".glean");
+
+/**
+ * Sets the directory in which Glean data is persisted.
+ *
+ * Stores created before this is called will keep using the previous directory.
+ *
+ * @param directory The path to the directory. It is created if it doesn't exist.
+ */
+export function setStorageDirectory(directory: string): void {
+  storageDirectory = directory;
+}
+
+/**
+ * Deletes a file, if it exists.
+ *
+ * `fs.rmSync` with the `force` option does the same,
+ * but it is not available on all Node.js versions supported by Glean.
+ *
+ * @param filePath The path to the file to delete.
+ */
+function removeFile(filePath: string): void {
+  try {
+    fs.unlinkSync(filePath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw err;
+    }
+  }
+}
+
+/**
+ * A Store implementation which persists each store as a JSON file on disk.
+ *
+ * Files are always fully rewritten to a temporary file which is then renamed
+ * over the previous one, so that a crash mid-write never leaves a corrupted store behind.
+ */
+class NodeStore implements Store {
+  private logTag: string;
+  private filePath: string;
+
+  constructor(rootKey: string) {
+    this.logTag = `${LOG_TAG}.${rootKey}`;
+    this.filePath = path.join(storageDirectory, `${rootKey}.json`);
+  }
+
+  get(index: StorageIndex = []): JSONValue | undefined {
+    const obj = this.read();
+
+    if (index.length > 0) {
+      return getValueFromNestedObject(obj, index);
+    }
+
+    return Object.keys(obj).length === 0 ? undefined : obj;
+  }
+
+  update(index: StorageIndex, transformFn: (v?: JSONValue) => JSONValue): void {
+    const updatedObj = updateNestedObject(this.read(), index, transformFn);
+    this.write(updatedObj);
+  }
+
+  delete(index: StorageIndex): void {
+    if (index.length === 0) {
+      try {
+        removeFile(this.filePath);
+      } catch (err) {
+        log(this.logTag, ["Unable to delete store file.", err], LoggingLevel.Error);
+      }
+      return;
+    }
+
+    try {
+      const updatedObj = deleteKeyFromNestedObject(this.read(), index);
+      this.write(updatedObj);
+    } catch (e) {
+      log(
+        this.logTag,
+        [`Error attempting to delete key ${index.toString()} from storage. Ignoring.`, e],
+        LoggingLevel.Warn
+      );
+    }
+  }
+
+  /**
+   * Reads and parses the contents of the store file.
+   *
+   * @returns The parsed contents of the file or an empty object
+   *          in case the file does not exist or contains invalid data.
+   */
+  private read(): JSONObject {
+    let json: string;
+    try {
+      json = fs.readFileSync(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        log(this.logTag, ["Unable to read store file.", err], LoggingLevel.Error);
+      }
+      return {};
+    }
+
+    try {
+      const obj = JSON.parse(json) as unknown;
+      if (isObject(obj)) {
+        return obj as JSONObject;
+      }
+    } catch (err) {
+      log(this.logTag, ["Unable to parse store file.", err], LoggingLevel.Error);
+      return {};
+    }
+
+    log(this.logTag, "Unexpected data found in store file. Ignoring.", LoggingLevel.Warn);
+    return {};
+  }
+
+  /**
+   * Atomically replaces the contents of the store file.
+   *
+   * @param obj The object to persist.
+   */
+  private write(obj: JSONObject): void {
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tmpPath, JSON.stringify(obj), "utf8");
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      log(this.logTag, ["Unable to write store file.", err], LoggingLevel.Error);
+      try {
+        removeFile(tmpPath);
+      } catch (err) {
+        log(this.logTag, ["Unable to delete temporary store file.", err], LoggingLevel.Error);
+      }
+    }
+  }
+}
+
+export default NodeStore;
@@ -0,0 +1,78 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type PingRequest from "../../core/upload/ping_request.js";
+
+import http from "http";
+import https from "https";
+
+import log, { LoggingLevel } from "../../core/log.js";
+import Uploader from "../../core/upload/uploader.js";
+import {
+  DEFAULT_UPLOAD_TIMEOUT_MS,
+  UploadResultStatus,
+  UploadResult,
+  parseRetryAfter
+} from "../../core/upload/uploader.js";
+
+const LOG_TAG = "platform.node.Uploader";
+
+class NodeUploader extends Uploader {
+  timeoutMs: number = DEFAULT_UPLOAD_TIMEOUT_MS;
+
+  async post(
+    url: string,
+    pingRequest: PingRequest<string | Uint8Array>
+  ): Promise<UploadResult> {
+    // We expect to have a gzipped payload.
+    const gzipRequest = pingRequest.asCompressedPayload();
+
+    return new Promise<UploadResult>((resolve) => {
+      let request: http.ClientRequest;
+      try {
+        // Plain HTTP is only ever allowed by the configuration in testing mode.
+        const client = url.startsWith("http:") ? http : https;
+        request = client.request(url, {
+          method: "POST",
+          headers: gzipRequest.headers,
+          timeout: this.timeoutMs
+        }, (response) => {
+          // We only care about the status code, discard the response body.
+          response.resume();
+          resolve(new UploadResult(
+            UploadResultStatus.Success,
+            response.statusCode,
+            parseRetryAfter(response.headers["retry-after"])
+          ));
+        });
+      } catch (e) {
+        // `request` throws synchronously in case the URL or the headers are invalid,
+        // retrying will not make this any better.
+        log(LOG_TAG, ["Unable to build request while attempting to upload ping.\n", e], LoggingLevel.Error);
+        resolve(new UploadResult(UploadResultStatus.UnrecoverableFailure));
+        return;
+      }
+
+      request.on("timeout", () => {
+        log(LOG_TAG, "Timeout while attempting to upload ping.", LoggingLevel.Error);
+        // This will cause the "error" event to be emitted.
+        request.destroy();
+      });
+
+      request.on("error", (e) => {
+        // We will treat this as we treat server / network errors in this case.
+        log(LOG_TAG, ["Network error while attempting to upload ping.\n", e], LoggingLevel.Error);
+        resolve(new UploadResult(UploadResultStatus.RecoverableFailure));
+      });
+
+      request.end(gzipRequest.payload);
+    });
+  }
+
+  supportsCustomHeaders(): boolean {
+    return true;
+  }
+}
+
+export default new NodeUploader();
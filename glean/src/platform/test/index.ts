@@ -5,6 +5,7 @@
 import type PingRequest from "../../core/upload/ping_request.js";
 import type Platform from "../index.js";
 import type PlatformInfo from "../../core/platform_info.js";
+import type RemoteConfigFetcher from "../../core/remote_config_fetcher.js";
 
 import MockStorage from "../test/storage.js";
 import { KnownOperatingSystems } from "../../core/platform_info.js";
@@ -23,6 +24,13 @@ class MockUploader extends Uploader {
   }
 }
 
+const MockRemoteConfigFetcher: RemoteConfigFetcher = {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  fetch(_url: string): Promise<string | undefined> {
+    return Promise.resolve(undefined);
+  }
+};
+
 const MockPlatformInfo: PlatformInfo = {
   os(): KnownOperatingSystems {
     return KnownOperatingSystems.Unknown;
@@ -50,7 +58,8 @@ const TestPlatform: Platform = {
   uploader: new MockUploader(),
   info: MockPlatformInfo,
   timer: { setTimeout: safeSetTimeout, clearTimeout: safeClearTimeout },
-  name: "test"
+  name: "test",
+  remoteConfigFetcher: MockRemoteConfigFetcher
 };
 
 export default TestPlatform;
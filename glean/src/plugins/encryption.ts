@@ -0,0 +1,169 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type { PingPayload } from "../core/pings/ping_payload.js";
+
+import { strToU8 } from "fflate";
+import Plugin from "./index.js";
+import CoreEvents, { PayloadWithHeaders } from "../core/events/index.js";
+
+// The length in bits of the ECDH shared secret for each of the supported curves.
+const SHARED_SECRET_LENGTHS = {
+  "P-256": 256,
+  "P-384": 384,
+  "P-521": 528
+};
+
+// The content encryption algorithm and the length in bits of its key.
+const CONTENT_ENCRYPTION_ALGORITHM = "A256GCM";
+const CONTENT_ENCRYPTION_KEY_LENGTH = 256;
+// The length in bytes of the AES-GCM initialization vector and authentication tag.
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * An elliptic curve public key, in the JSON Web Key format.
+ */
+export interface EncryptionJWK {
+  kty: "EC";
+  crv: keyof typeof SHARED_SECRET_LENGTHS;
+  x: string;
+  y: string;
+  // The identifier of the key, included in the JWE protected header if present.
+  kid?: string;
+}
+
+/**
+ * Encodes an array of bytes as base64url, without padding.
+ *
+ * @param bytes The bytes to encode.
+ * @returns The encoded string.
+ */
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Encodes a number as a 32-bit big-endian unsigned integer.
+ *
+ * @param value The number to encode.
+ * @returns The encoded number.
+ */
+function uint32BE(value: number): Uint8Array {
+  const result = new Uint8Array(4);
+  new DataView(result.buffer).setUint32(0, value);
+  return result;
+}
+
+/**
+ * Concatenates arrays of bytes.
+ *
+ * @param arrays The arrays to concatenate.
+ * @returns A new array containing the bytes of all arrays in order.
+ */
+function concat(...arrays: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(arrays.reduce((length, array) => length + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+/**
+ * Derives the content encryption key from an ECDH shared secret,
+ * using the Concat KDF as described in https://www.rfc-editor.org/rfc/rfc7518#section-4.6.2.
+ *
+ * Since the key is no longer than the SHA-256 output, a single round is enough.
+ *
+ * @param sharedSecret The ECDH shared secret.
+ * @returns The content encryption key.
+ */
+async function deriveContentEncryptionKey(sharedSecret: Uint8Array): Promise<CryptoKey> {
+  const algorithmId = strToU8(CONTENT_ENCRYPTION_ALGORITHM);
+  const otherInfo = concat(
+    uint32BE(algorithmId.length),
+    algorithmId,
+    // Empty PartyUInfo and PartyVInfo.
+    uint32BE(0),
+    uint32BE(0),
+    uint32BE(CONTENT_ENCRYPTION_KEY_LENGTH)
+  );
+  const digest = await crypto.subtle.digest("SHA-256", concat(uint32BE(1), sharedSecret, otherInfo));
+  return crypto.subtle.importKey("raw", digest, { name: "AES-GCM" }, false, ["encrypt"]);
+}
+
+/**
+ * A plugin that listens for the `afterPingCollection` event and encrypts **all** outgoing pings
+ * with the JSON Web Key provided upon initialization.
+ *
+ * Pings are encrypted with ECDH-ES + A256GCM using WebCrypto and recorded
+ * as `{ "payload": "<compact JWE>" }`, along with the `application/jose` content type.
+ *
+ * This plugin is not included in the Glean bundle by default,
+ * it must be imported from "@mozilla/glean/plugins/encryption".
+ */
+class PingEncryptionPlugin extends Plugin<typeof CoreEvents["afterPingCollection"]> {
+  /**
+   * Creates a new PingEncryptionPlugin instance.
+   *
+   * @param jwk The JWK that will be used to encode outgoing ping payloads.
+   */
+  constructor(private readonly jwk: EncryptionJWK) {
+    super(CoreEvents["afterPingCollection"].name, "pingEncryptionPlugin");
+  }
+
+  async action(payload: PingPayload): Promise<PayloadWithHeaders> {
+    const { subtle } = crypto;
+    const { kty, crv, x, y, kid } = this.jwk;
+    const algorithm = { name: "ECDH", namedCurve: crv };
+
+    const recipientKey = await subtle.importKey("jwk", { kty, crv, x, y }, algorithm, false, []);
+    // A new ephemeral key pair is generated for each ping.
+    const ephemeralKey = await subtle.generateKey(algorithm, true, ["deriveBits"]);
+    const ephemeralPublicKey = await subtle.exportKey("jwk", ephemeralKey.publicKey);
+
+    const sharedSecret = await subtle.deriveBits(
+      { name: "ECDH", public: recipientKey },
+      ephemeralKey.privateKey,
+      SHARED_SECRET_LENGTHS[crv]
+    );
+    const contentEncryptionKey = await deriveContentEncryptionKey(new Uint8Array(sharedSecret));
+
+    const protectedHeader = {
+      alg: "ECDH-ES",
+      enc: CONTENT_ENCRYPTION_ALGORITHM,
+      epk: { kty, crv, x: ephemeralPublicKey.x, y: ephemeralPublicKey.y },
+      ...(kid !== undefined ? { kid } : {}),
+      typ: "JWE"
+    };
+    const encodedHeader = base64UrlEncode(strToU8(JSON.stringify(protectedHeader)));
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = new Uint8Array(await subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: strToU8(encodedHeader), tagLength: TAG_LENGTH * 8 },
+      contentEncryptionKey,
+      strToU8(JSON.stringify(payload))
+    ));
+
+    // ECDH-ES is a direct key agreement, so the encrypted key is always empty.
+    const jwe = [
+      encodedHeader,
+      "",
+      base64UrlEncode(iv),
+      base64UrlEncode(encrypted.subarray(0, -TAG_LENGTH)),
+      base64UrlEncode(encrypted.subarray(-TAG_LENGTH))
+    ].join(".");
+
+    return new PayloadWithHeaders({ payload: jwe }, { "Content-Type": "application/jose" });
+  }
+}
+
+export default PingEncryptionPlugin;
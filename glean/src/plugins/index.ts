@@ -0,0 +1,31 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type { CoreEvent } from "../core/events/index.js";
+
+// Helper types for extracting the context and result types from an event.
+type EventContext<E> = E extends CoreEvent<infer InnerContext, unknown> ? InnerContext : unknown[];
+type EventResult<E> = E extends CoreEvent<unknown[], infer InnerResult> ? InnerResult : unknown;
+
+/**
+ * Plugins can listen to events that happen during Glean's lifecycle.
+ *
+ * Every Glean plugin must extend this class.
+ */
+export default abstract class Plugin<E extends CoreEvent = CoreEvent> {
+  /**
+   * Instantiates the Glean plugin.
+   *
+   * @param event The name of the event this plugin listens to.
+   * @param name The name of this plugin.
+   */
+  constructor(readonly event: string, readonly name: string) {}
+
+  /**
+   * An action that will be triggered every time the instantiating event happens.
+   *
+   * @param args The arguments that are expected to be passed by this event.
+   */
+  abstract action(...args: EventContext<E>): EventResult<E>;
+}
@@ -31,6 +31,89 @@ describe("config", function() {
     assert.throws(() => new Configuration({ serverEndpoint: wrongEndpoint }));
   });
 
+  it("uploadPolicy is validated correctly", function () {
+    // Invalid values
+    assert.throws(() => new Configuration({ uploadPolicy: { maxPingsPerInterval: 0 } }));
+    assert.throws(() => new Configuration({ uploadPolicy: { maxPingsPerInterval: 1.5 } }));
+    assert.throws(() => new Configuration({ uploadPolicy: { maxPendingPingsSize: -1 } }));
+    assert.throws(() => new Configuration({ uploadPolicy: { baseBackoffTime: -1 } }));
+    // @ts-expect-error Testing invalid input.
+    assert.throws(() => new Configuration({ uploadPolicy: { rateLimitInterval: "60000" } }));
+    // Longer delays overflow the timer.
+    assert.throws(() => new Configuration({ uploadPolicy: { rateLimitInterval: 2 ** 31 } }));
+    assert.throws(() => new Configuration({ uploadPolicy: { baseBackoffTime: 2 ** 31 } }));
+    assert.throws(() => new Configuration({ uploadPolicy: { maxBackoffTime: 2 ** 31 } }));
+    // Unknown options
+    // @ts-expect-error Testing invalid input.
+    assert.throws(() => new Configuration({ uploadPolicy: { maxRecoverableFailure: 5 } }));
+
+    // Valid values
+    assert.deepStrictEqual(new Configuration().uploadPolicy, {});
+    assert.doesNotThrow(() => new Configuration({ uploadPolicy: { baseBackoffTime: 0, maxWaitAttempts: 0 } }));
+    assert.doesNotThrow(() => new Configuration({ uploadPolicy: { maxBackoffTime: 2 ** 31 - 1 } }));
+    const config = new Configuration({ uploadPolicy: { maxPingsPerInterval: 100, rateLimitInterval: 1000 } });
+    assert.deepStrictEqual(config.uploadPolicy, { maxPingsPerInterval: 100, rateLimitInterval: 1000 });
+  });
+
+  it("clientSampleRate is validated correctly", function () {
+    assert.throws(() => new Configuration({ clientSampleRate: -0.1 }));
+    assert.throws(() => new Configuration({ clientSampleRate: 1.1 }));
+    // @ts-expect-error Testing invalid input.
+    assert.throws(() => new Configuration({ clientSampleRate: "0.5" }));
+
+    assert.strictEqual(new Configuration().clientSampleRate, undefined);
+    assert.strictEqual(new Configuration({ clientSampleRate: 0 }).clientSampleRate, 0);
+    assert.strictEqual(new Configuration({ clientSampleRate: 0.5 }).clientSampleRate, 0.5);
+  });
+
+  it("experimentationId is validated correctly", function () {
+    // @ts-expect-error Testing invalid input.
+    assert.throws(() => new Configuration({ experimentationId: 42 }));
+    assert.throws(() => new Configuration({ experimentationId: "a".repeat(101) }));
+
+    assert.strictEqual(new Configuration().experimentationId, undefined);
+    assert.strictEqual(new Configuration({ experimentationId: "alpha-beta" }).experimentationId, "alpha-beta");
+    assert.strictEqual(new Configuration({ experimentationId: "a".repeat(100) }).experimentationId, "a".repeat(100));
+  });
+
+  it("maxEventsAge is validated correctly", function () {
+    assert.throws(() => new Configuration({ maxEventsAge: 0 }));
+    assert.throws(() => new Configuration({ maxEventsAge: 1.5 }));
+    // Longer delays overflow the timer.
+    assert.throws(() => new Configuration({ maxEventsAge: 2147484 }));
+
+    assert.strictEqual(new Configuration().maxEventsAge, undefined);
+    assert.strictEqual(new Configuration({ maxEventsAge: 60 }).maxEventsAge, 60);
+  });
+
+  it("metricsPingScheduleHour is validated correctly", function () {
+    assert.throws(() => new Configuration({ metricsPingScheduleHour: -1 }));
+    assert.throws(() => new Configuration({ metricsPingScheduleHour: 24 }));
+    assert.throws(() => new Configuration({ metricsPingScheduleHour: 4.5 }));
+
+    assert.strictEqual(new Configuration().metricsPingScheduleHour, 4);
+    assert.strictEqual(new Configuration({ metricsPingScheduleHour: 0 }).metricsPingScheduleHour, 0);
+    assert.strictEqual(new Configuration({ metricsPingScheduleHour: 23 }).metricsPingScheduleHour, 23);
+  });
+
+  it("remote configuration options are validated correctly", function () {
+    Context.testing = true;
+    assert.doesNotThrow(() => new Configuration({ remoteConfigUrl: "https://mytest.com/config.json?app=a" }));
+    assert.doesNotThrow(() => new Configuration({ remoteConfigUrl: "http://localhost:8080" }));
+    assert.throws(() => new Configuration({ remoteConfigUrl: "wrong://mytest.com/config.json" }));
+    assert.throws(() => new Configuration({ remoteConfigUrl: "https://my test.com" }));
+
+    Context.testing = false;
+    assert.throws(() => new Configuration({ remoteConfigUrl: "http://mytest.com/config.json" }));
+
+    assert.throws(() => new Configuration({ remoteConfigRefreshInterval: 0 }));
+    assert.throws(() => new Configuration({ remoteConfigRefreshInterval: 1.5 }));
+    // Longer delays overflow the timer.
+    assert.throws(() => new Configuration({ remoteConfigRefreshInterval: 2 ** 31 }));
+    assert.strictEqual(new Configuration({ remoteConfigRefreshInterval: 1000 }).remoteConfigRefreshInterval, 1000);
+    assert.ok(new Configuration().remoteConfigRefreshInterval > 0);
+  });
+
   it("validation of sourceTags works correctly", function () {
     const config = new Configuration();
 
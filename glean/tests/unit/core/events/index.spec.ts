@@ -0,0 +1,200 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import sinon from "sinon";
+
+import type { AfterPingCollectionResult } from "../../../../src/core/events/index";
+import type { PingPayload } from "../../../../src/core/pings/ping_payload";
+
+import CoreEvents, { CoreEvent } from "../../../../src/core/events/index";
+import { registerPluginToEvent, testResetEvents } from "../../../../src/core/events/utils";
+import Plugin from "../../../../src/plugins/index";
+import { Context } from "../../../../src/core/context";
+import { InternalPingType as PingType } from "../../../../src/core/pings/ping_type";
+import Glean from "../../../../src/core/glean";
+import { DELETION_REQUEST_PING_NAME } from "../../../../src/core/constants";
+import { stopGleanUploader } from "../../../utils";
+import { testResetGlean } from "../../../../src/core/testing";
+
+const sandbox = sinon.createSandbox();
+
+class MockPlugin extends Plugin<typeof CoreEvents["afterPingCollection"]> {
+  constructor(private readonly transform: (payload: PingPayload) => AfterPingCollectionResult) {
+    super(CoreEvents["afterPingCollection"].name, "mockPlugin");
+  }
+
+  action(payload: PingPayload): AfterPingCollectionResult {
+    return this.transform(payload);
+  }
+}
+
+describe("CoreEvents", function() {
+  const testAppId = `gleanjs.test.${this.title}`;
+
+  beforeEach(function() {
+    testResetGlean(testAppId);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+    testResetEvents();
+  });
+
+  it("registering a plugin to an event works", function () {
+    const mockEvent = new CoreEvent<[PingPayload], AfterPingCollectionResult>("mockEvent");
+    assert.strictEqual(mockEvent.trigger({} as PingPayload), undefined);
+
+    mockEvent.registerPlugin(new MockPlugin(() => ({ test: true })));
+    assert.strictEqual(mockEvent.registeredPluginIdentifier, "mockPlugin");
+    assert.deepStrictEqual(mockEvent.trigger({} as PingPayload), { test: true });
+
+    mockEvent.deregisterPlugin();
+    assert.strictEqual(mockEvent.registeredPluginIdentifier, undefined);
+  });
+
+  it("only one plugin may listen to an event at a time", function () {
+    const firstPlugin = new MockPlugin(() => ({ first: true }));
+    const secondPlugin = new MockPlugin(() => ({ second: true }));
+
+    registerPluginToEvent(firstPlugin);
+    registerPluginToEvent(secondPlugin);
+
+    assert.deepStrictEqual(
+      CoreEvents.afterPingCollection.trigger({} as PingPayload),
+      { first: true }
+    );
+  });
+
+  it("plugins listening to unknown events are ignored", function () {
+    class UnknownEventPlugin extends Plugin {
+      constructor() {
+        super("unknownEvent", "unknownEventPlugin");
+      }
+
+      action(): void {
+        return;
+      }
+    }
+
+    registerPluginToEvent(new UnknownEventPlugin());
+    assert.ok(!("unknownEvent" in CoreEvents));
+    for (const event in CoreEvents) {
+      assert.strictEqual(CoreEvents[event].registeredPluginIdentifier, undefined);
+    }
+  });
+
+  it("plugins passed through the configuration are registered on initialize", function () {
+    testResetGlean(testAppId, true, { plugins: [ new MockPlugin(() => null) ] });
+    assert.strictEqual(CoreEvents.afterPingCollection.registeredPluginIdentifier, "mockPlugin");
+
+    // Plugins are deregistered when Glean is reset.
+    testResetGlean(testAppId);
+    assert.strictEqual(CoreEvents.afterPingCollection.registeredPluginIdentifier, undefined);
+  });
+
+  describe("afterPingCollection", function () {
+    const ping = new PingType({
+      name: "ping",
+      includeClientId: true,
+      sendIfEmpty: true,
+    });
+
+    beforeEach(function () {
+      // Keep the pings in the database, so that their payloads can be verified.
+      stopGleanUploader();
+    });
+
+    it("payloads modified by a plugin are recorded", function () {
+      registerPluginToEvent(new MockPlugin(payload => ({ ...payload, modified: true })));
+
+      ping.submit();
+
+      const [[_, storedPing]] = Context.pingsDatabase.getAllPings();
+      assert.strictEqual(storedPing.payload.modified, true);
+      assert.ok("ping_info" in storedPing.payload);
+    });
+
+    it("pings discarded by a plugin are not recorded", function () {
+      registerPluginToEvent(new MockPlugin(() => null));
+
+      ping.submit();
+
+      assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+    });
+
+    it("pings are not recorded if the plugin throws", function () {
+      registerPluginToEvent(new MockPlugin(() => {
+        throw new Error("Oops");
+      }));
+
+      ping.submit();
+
+      assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+    });
+
+    it("payloads modified asynchronously by a plugin are recorded once done", async function () {
+      let resolvePayload: () => void = () => undefined;
+      registerPluginToEvent(new MockPlugin(payload => new Promise(resolve => {
+        resolvePayload = () => resolve({ ...payload, modified: true });
+      })));
+
+      ping.submit();
+      assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+
+      resolvePayload();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const [[_, storedPing]] = Context.pingsDatabase.getAllPings();
+      assert.strictEqual(storedPing.payload.modified, true);
+    });
+
+    it("pings are not recorded if collection is disabled while a plugin is modifying them", async function () {
+      const resolvers: (() => void)[] = [];
+      registerPluginToEvent(new MockPlugin(payload => new Promise(resolve => {
+        resolvers.push(() => resolve(payload));
+      })));
+
+      ping.submit();
+      // This also submits the deletion-request ping, which is always recorded.
+      Glean.setUploadEnabled(false);
+
+      resolvers.forEach(resolve => resolve());
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const storedPings = Context.pingsDatabase.getAllPings();
+      assert.strictEqual(storedPings.length, 1);
+      assert.ok(storedPings[0][1].path.includes(`/${DELETION_REQUEST_PING_NAME}/`));
+    });
+
+    it("pings are not recorded if they are disabled while a plugin is modifying them", async function () {
+      let resolvePayload: () => void = () => undefined;
+      registerPluginToEvent(new MockPlugin(payload => new Promise(resolve => {
+        resolvePayload = () => resolve(payload);
+      })));
+
+      const customPing = new PingType({
+        name: "custom",
+        includeClientId: true,
+        sendIfEmpty: true,
+      });
+      customPing.submit();
+      Glean.setPingEnabled("custom", false);
+
+      resolvePayload();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+    });
+
+    it("pings are not recorded if the plugin rejects", async function () {
+      registerPluginToEvent(new MockPlugin(() => Promise.reject(new Error("Oops"))));
+
+      ping.submit();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+    });
+  });
+});
@@ -11,7 +11,7 @@ import StringMetricType from "../../../src/core/metrics/types/string";
 import CounterMetricType from "../../../src/core/metrics/types/counter";
 import PingType from "../../../src/core/pings/ping_type";
 import type { JSONObject } from "../../../src/core/utils";
-import { isObject } from "../../../src/core/utils";
+import { hashToUnitInterval, isObject } from "../../../src/core/utils";
 import { stopGleanUploader, WaitableUploader } from "../../../tests/utils";
 import TestPlatform from "../../../src/platform/test";
 import { Lifetime } from "../../../src/core/metrics/lifetime";
@@ -247,6 +247,100 @@ describe("Glean", function() {
     assert.strictEqual(Context.uploadEnabled, false);
   });
 
+  it("the experimentation id is sent in every ping, deletion-request included", async function() {
+    const httpClient = new WaitableUploader();
+    testResetGlean(testAppId, true, { httpClient, experimentationId: "alpha-beta-gamma" });
+
+    const custom = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: true,
+    });
+    let pingBody = httpClient.waitForPingSubmission("custom");
+    custom.submit();
+    let { metrics } = await pingBody;
+    assert.deepStrictEqual(
+      (metrics as JSONObject).string,
+      { "glean.client.annotation.experimentation_id": "alpha-beta-gamma" }
+    );
+
+    pingBody = httpClient.waitForPingSubmission(DELETION_REQUEST_PING_NAME);
+    Glean.setUploadEnabled(false);
+    ({ metrics } = await pingBody);
+    assert.deepStrictEqual(
+      (metrics as JSONObject).string,
+      { "glean.client.annotation.experimentation_id": "alpha-beta-gamma" }
+    );
+
+    // The experimentation id is cleared along with all other data.
+    assert.strictEqual(Context.coreMetrics.experimentationId.testGetValue(), undefined);
+  });
+
+  it("the experimentation id does not prevent empty pings from being discarded", function() {
+    testResetGlean(testAppId, true, { experimentationId: "alpha-beta-gamma" });
+    const recordPingSpy = sandbox.spy(Context.pingsDatabase, "recordPing");
+
+    const custom = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+    });
+    custom.submit();
+
+    assert.strictEqual(recordPingSpy.callCount, 0);
+  });
+
+  it("clients outside of the sample behave as if upload was disabled, without a deletion-request ping", function() {
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounter",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    counter.add(1);
+    const clientId = Context.coreMetrics.clientId.testGetValue(CLIENT_INFO_STORAGE);
+
+    testResetGlean(testAppId, true, { clientSampleRate: 0 }, false);
+    assert.strictEqual(Context.uploadEnabled, false);
+    assert.strictEqual(counter.testGetValue("aPing"), undefined);
+    assert.strictEqual(Context.coreMetrics.clientId.testGetValue(CLIENT_INFO_STORAGE), clientId);
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+
+    counter.add(1);
+    assert.strictEqual(counter.testGetValue("aPing"), undefined);
+  });
+
+  it("changing the client sample rate consistently adds or removes the same clients", function() {
+    const clientId = Context.coreMetrics.clientId.testGetValue(CLIENT_INFO_STORAGE) as string;
+    const bucket = hashToUnitInterval(clientId);
+
+    for (const [clientSampleRate, sampledIn] of [
+      [(bucket + 1) / 2, true],
+      [bucket, false],
+      [1, true],
+      [bucket / 2, false]
+    ] as [number, boolean][]) {
+      testResetGlean(testAppId, true, { clientSampleRate }, false);
+      assert.strictEqual(Context.uploadEnabled, sampledIn);
+      assert.strictEqual(Context.coreMetrics.clientId.testGetValue(CLIENT_INFO_STORAGE), clientId);
+    }
+  });
+
+  it("enabling upload does not bring clients outside of the sample back", function() {
+    testResetGlean(testAppId, true, { clientSampleRate: 0 });
+    const recordPingSpy = sandbox.spy(Context.pingsDatabase, "recordPing");
+
+    Glean.setUploadEnabled(true);
+    assert.strictEqual(Context.uploadEnabled, false);
+
+    // Disabling upload still resets the client_id and sends a deletion-request ping.
+    Glean.setUploadEnabled(false);
+    assert.strictEqual(recordPingSpy.callCount, 1);
+    assert.ok(recordPingSpy.firstCall.args[0].includes(`/${DELETION_REQUEST_PING_NAME}/`));
+    assert.strictEqual(Context.coreMetrics.clientId.testGetValue(CLIENT_INFO_STORAGE), KNOWN_CLIENT_ID);
+  });
+
   it("deletion request is sent when toggling upload from on to off and the pings queue is full", async function() {
     const httpClient = new WaitableUploader();
     testResetGlean(testAppId, true, { httpClient });
@@ -307,6 +401,9 @@ describe("Glean", function() {
     // If ping was not sent this promise will reject.
     await pingBody;
     assert.strictEqual(Context.uploadEnabled, false);
+    // Wait for the upload response to be processed,
+    // pings are only deleted from storage after that.
+    await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
 
     // Can't clear stores here,
     // otherwise Glean won't know upload has been disabled in a previous run.
@@ -573,4 +670,160 @@ describe("Glean", function() {
     Glean.setUploadEnabled("not a boolean");
     assert.strictEqual(Context.uploadEnabled, false);
   });
+
+  it("pings which do not follow collection keep recording and submitting while it is disabled", function() {
+    const ping = new PingType({
+      name: "independent",
+      includeClientId: true,
+      sendIfEmpty: false,
+      followsCollectionEnabled: false
+    });
+    const metric = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounter",
+      sendInPings: ["independent", "aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+
+    metric.add(1);
+    Glean.setCollectionEnabled(false);
+    assert.strictEqual(Context.uploadEnabled, false);
+
+    // Data recorded before disabling collection is kept, only for the ping which does not follow it.
+    assert.strictEqual(metric.testGetValue("independent"), 1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("independent"), 2);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+
+    const recordPingSpy = sandbox.spy(Context.pingsDatabase, "recordPing");
+    ping.submit();
+    assert.strictEqual(recordPingSpy.callCount, 1);
+    assert.ok(recordPingSpy.firstCall.args[0].includes("/independent/"));
+  });
+
+  it("pending pings which do not follow collection are not cleared when it is disabled", function() {
+    stopGleanUploader();
+    const ping = new PingType({
+      name: "independent",
+      includeClientId: true,
+      sendIfEmpty: true,
+      followsCollectionEnabled: false
+    });
+    const otherPing = new PingType({
+      name: "aPing",
+      includeClientId: true,
+      sendIfEmpty: true
+    });
+
+    ping.submit();
+    otherPing.submit();
+    Glean.setCollectionEnabled(false);
+
+    const pendingPings = Context.pingsDatabase.getAllPings()
+      .map(([, { path }]) => path.split("/")[3])
+      .sort();
+    assert.deepStrictEqual(pendingPings, [DELETION_REQUEST_PING_NAME, "independent"]);
+  });
+
+  it("disabled pings are neither recorded to nor submitted", function() {
+    const ping = new PingType({
+      name: "disabled",
+      includeClientId: true,
+      sendIfEmpty: true,
+      enabled: false
+    });
+    const metric = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounter",
+      sendInPings: ["disabled", "aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    const recordPingSpy = sandbox.spy(Context.pingsDatabase, "recordPing");
+
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("disabled"), undefined);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+
+    ping.submit();
+    assert.strictEqual(recordPingSpy.callCount, 0);
+  });
+
+  it("setUploadEnabled is an alias of setCollectionEnabled", function() {
+    Glean.setUploadEnabled(false);
+    assert.strictEqual(Context.uploadEnabled, false);
+
+    Glean.setCollectionEnabled(true);
+    assert.strictEqual(Context.uploadEnabled, true);
+  });
+
+  it("the baseline ping is submitted when the client becomes active and inactive", function() {
+    const submitStub = sandbox.stub(Context.corePings.baseline, "submit");
+
+    Glean.handleClientActive();
+    // Becoming active twice in a row is a no-op.
+    Glean.handleClientActive();
+    assert.ok(submitStub.calledOnceWith("active"));
+
+    Glean.handleClientInactive();
+    Glean.handleClientInactive();
+    assert.strictEqual(submitStub.callCount, 2);
+    assert.strictEqual(submitStub.lastCall.args[0], "inactive");
+    // The stub prevents the ping from clearing the duration.
+    assert.strictEqual(Context.coreMetrics.baselineDuration.testGetValue(), 0);
+  });
+
+  it("the client activity follows the visibility of the application", function() {
+    let hidden = false;
+    let onVisibilityChange: (hidden: boolean) => void = () => undefined;
+    TestPlatform.lifecycle = {
+      isHidden: () => hidden,
+      onVisibilityChange: (callback) => {
+        onVisibilityChange = callback;
+        return () => { onVisibilityChange = () => undefined; };
+      }
+    };
+
+    try {
+      testResetGlean(testAppId, true, { enableAutoLifecyclePings: true });
+      const submitStub = sandbox.stub(Context.corePings.baseline, "submit");
+      // The application is visible at initialize.
+      assert.ok(Context.coreMetrics.baselineDuration.startTime !== undefined);
+
+      hidden = true;
+      onVisibilityChange(true);
+      assert.ok(submitStub.calledOnceWith("inactive"));
+
+      hidden = false;
+      onVisibilityChange(false);
+      assert.strictEqual(submitStub.callCount, 2);
+      assert.strictEqual(submitStub.lastCall.args[0], "active");
+
+      // The listener is removed on uninitialize.
+      testUninitializeGlean();
+      onVisibilityChange(true);
+      assert.strictEqual(submitStub.callCount, 2);
+    } finally {
+      delete TestPlatform.lifecycle;
+    }
+  });
+
+  it("the client activity does not follow the visibility of the application by default", function() {
+    const onVisibilityChange = sandbox.stub();
+    TestPlatform.lifecycle = {
+      isHidden: () => false,
+      onVisibilityChange
+    };
+
+    try {
+      testResetGlean(testAppId);
+      assert.strictEqual(onVisibilityChange.callCount, 0);
+      assert.strictEqual(Context.coreMetrics.baselineDuration.startTime, undefined);
+    } finally {
+      delete TestPlatform.lifecycle;
+    }
+  });
 });
@@ -13,6 +13,7 @@ import { Lifetime } from "../../../../src/core/metrics/lifetime";
 import { Context } from "../../../../src/core/context";
 import { BooleanMetric } from "../../../../src/core/metrics/types/boolean";
 import { testResetGlean } from "../../../../src/core/testing";
+import { PING_INFO_STORAGE } from "../../../../src/core/constants";
 
 describe("MetricsDatabase", function() {
   const testAppId = `gleanjs.test.${this.title}`;
@@ -446,6 +447,61 @@ describe("MetricsDatabase", function() {
     });
   });
 
+  describe("getPingMetricsOfType", function() {
+    it("gets metrics of the given type and lifetime as they are stored", function() {
+      const db = new Database();
+      const reservedMetric = new StringMetricType({
+        ...generateReservedMetricIdentifiers("test"),
+        sendInPings: ["aPing"],
+        lifetime: Lifetime.Application,
+        disabled: false
+      });
+      db.record(reservedMetric, new StringMetric("reserved"));
+
+      const pingMetric = new StringMetricType({
+        category: "ping",
+        name: "metric",
+        sendInPings: ["aPing"],
+        lifetime: Lifetime.Ping,
+        disabled: false
+      });
+      db.record(pingMetric, new StringMetric("ping"));
+
+      assert.deepStrictEqual(
+        db.getPingMetricsOfType("aPing", Lifetime.Application, "string"),
+        { "glean.reserved#test": "reserved" }
+      );
+      assert.strictEqual(db.getPingMetricsOfType("aPing", Lifetime.Application, "boolean"), undefined);
+    });
+  });
+
+  describe("delete", function() {
+    it("deletes a metric from all the pings it is sent in", function() {
+      const db = new Database();
+      const metric = new StringMetricType({
+        name: "aMetric",
+        category: "",
+        sendInPings: ["aPing", "otherPing"],
+        lifetime: Lifetime.Application,
+        disabled: false
+      });
+      const otherMetric = new StringMetricType({
+        name: "otherMetric",
+        category: "",
+        sendInPings: ["aPing"],
+        lifetime: Lifetime.Application,
+        disabled: false
+      });
+      db.record(metric, new StringMetric("aValue"));
+      db.record(otherMetric, new StringMetric("otherValue"));
+
+      db.delete(metric);
+      assert.strictEqual(db.getMetric("aPing", metric), undefined);
+      assert.strictEqual(db.getMetric("otherPing", metric), undefined);
+      assert.strictEqual(db.getMetric("aPing", otherMetric), "otherValue");
+    });
+  });
+
   describe("clear", function() {
     it("clear all stores works correctly", function() {
       const db = new Database();
@@ -482,6 +538,41 @@ describe("MetricsDatabase", function() {
       assert.deepStrictEqual(db["appStore"].get(), undefined);
     });
 
+    it("clear all stores keeps the data of the given pings", function() {
+      const db = new Database();
+      const metric = new StringMetricType({
+        category: "user",
+        name: "metric",
+        sendInPings: ["aPing", "keptPing"],
+        lifetime: Lifetime.User,
+        disabled: false
+      });
+      db.record(metric, new StringMetric("userValue"));
+
+      const keptPingInfo = new StringMetricType({
+        category: "",
+        name: "keptPing#info",
+        sendInPings: [PING_INFO_STORAGE],
+        lifetime: Lifetime.User,
+        disabled: false
+      });
+      db.record(keptPingInfo, new StringMetric("keptInfo"));
+      const pingInfo = new StringMetricType({
+        category: "",
+        name: "aPing#info",
+        sendInPings: [PING_INFO_STORAGE],
+        lifetime: Lifetime.User,
+        disabled: false
+      });
+      db.record(pingInfo, new StringMetric("info"));
+
+      db.clearAll(["keptPing"]);
+      assert.deepStrictEqual(db["userStore"].get(), {
+        keptPing: { string: { "user.metric": "userValue" } },
+        [PING_INFO_STORAGE]: { string: { "keptPing#info": "keptInfo" } }
+      });
+    });
+
     it("clears separate stores correctly", function() {
       const db = new Database();
       const userMetric = new StringMetricType({
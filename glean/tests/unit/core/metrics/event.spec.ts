@@ -8,8 +8,25 @@ import Glean from "../../../../src/core/glean";
 import EventMetricType from "../../../../src/core/metrics/types/event";
 import { Lifetime } from "../../../../src/core/metrics/lifetime";
 import { ErrorType } from "../../../../src/core/error/error_type";
+import { Context } from "../../../../src/core/context";
+import { CLIENT_INFO_STORAGE } from "../../../../src/core/constants";
+import { hashToUnitInterval } from "../../../../src/core/utils";
 import { testResetGlean } from "../../../../src/core/testing";
 
+/**
+ * Gets the bucket the current client falls into for a given event.
+ *
+ * @param identifier The `category.name` identifier of the event.
+ * @returns The bucket, between 0 and 1.
+ */
+function getSamplingBucket(identifier: string): number {
+  const clientId = Context.metricsDatabase.getMetric<string>(
+    CLIENT_INFO_STORAGE,
+    Context.coreMetrics.clientId
+  );
+  return hashToUnitInterval(`${clientId as string}:${identifier}`);
+}
+
 describe("EventMetric", function() {
   const testAppId = `gleanjs.test.${this.title}`;
 
@@ -297,4 +314,104 @@ describe("EventMetric", function() {
     assert.strictEqual(metric.testGetNumRecordedErrors(ErrorType.InvalidType), 2);
     assert.strictEqual(metric.testGetValue(), undefined);
   });
+
+  it("events are sampled deterministically from the client_id", function () {
+    const bucket = getSamplingBucket("ui.scroll");
+    const sampledIn = new EventMetricType({
+      category: "ui",
+      name: "scroll",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false,
+      // Any rate above the bucket samples the client in.
+      samplingRate: (bucket + 1) / 2
+    });
+    sampledIn.record();
+    sampledIn.record();
+    assert.strictEqual(sampledIn.testGetValue()?.length, 2);
+
+    const sampledOut = new EventMetricType({
+      category: "ui",
+      name: "scroll",
+      sendInPings: ["otherPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false,
+      samplingRate: bucket
+    });
+    sampledOut.record();
+    sampledOut.record();
+    assert.strictEqual(sampledOut.testGetValue(), undefined);
+  });
+
+  it("the sampling rate may be changed at runtime", function () {
+    const event = new EventMetricType({
+      category: "ui",
+      name: "hover",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false,
+      samplingRate: 0
+    });
+    event.record();
+    assert.strictEqual(event.testGetValue(), undefined);
+
+    event.setSamplingRate(1);
+    event.record();
+    assert.strictEqual(event.testGetValue()?.length, 1);
+
+    // Invalid rates are ignored.
+    event.setSamplingRate(-1);
+    event.setSamplingRate(1.5);
+    // @ts-expect-error Testing invalid input.
+    event.setSamplingRate("0");
+    event.record();
+    assert.strictEqual(event.testGetValue()?.length, 2);
+  });
+
+  it("the sampling rate is reported for sampled events only", function () {
+    const rate = (getSamplingBucket("ui.click") + 1) / 2;
+    const sampled = new EventMetricType({
+      category: "ui",
+      name: "click",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false,
+      samplingRate: rate
+    }, ["object_id"]);
+    sampled.record({ "object_id": "button" });
+
+    const notSampled = new EventMetricType({
+      category: "ui",
+      name: "click",
+      sendInPings: ["otherPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    }, ["object_id"]);
+    notSampled.record({ "object_id": "button" });
+
+    assert.deepStrictEqual(
+      sampled.testGetValue()?.[0].extra,
+      { "object_id": "button", "glean_sampling_rate": rate }
+    );
+    assert.deepStrictEqual(notSampled.testGetValue()?.[0].extra, { "object_id": "button" });
+  });
+
+  it("server knobs sampling rates take precedence", function () {
+    const event = new EventMetricType({
+      category: "ui",
+      name: "scroll",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false,
+      samplingRate: 1
+    });
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ event_sampling_rates: { "ui": 0 } }));
+    event.record();
+    assert.strictEqual(event.testGetValue(), undefined);
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ event_sampling_rates: { "ui.scroll": 1 } }));
+    event.record();
+    assert.strictEqual(event.testGetValue()?.length, 1);
+  });
 });
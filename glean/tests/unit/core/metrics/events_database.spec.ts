@@ -15,6 +15,8 @@ import CounterMetricType from "../../../../src/core/metrics/types/counter";
 import { generateReservedMetricIdentifiers } from "../../../../src/core/metrics/database";
 import { InternalPingType as PingType } from "../../../../src/core/pings/ping_type";
 import { Context } from "../../../../src/core/context";
+import TestPlatform from "../../../../src/platform/test";
+import Glean from "../../../../src/core/glean";
 import { RecordedEvent } from "../../../../src/core/metrics/events_database/recorded_event";
 import {
   EVENTS_PING_NAME,
@@ -24,6 +26,7 @@ import { collectPing } from "../../../../src/core/pings/maker";
 import { ErrorType } from "../../../../src/core/error/error_type";
 import { testResetGlean } from "../../../../src/core/testing";
 import { testRestartGlean } from "../../../../src/core/testing";
+import { testUninitializeGlean } from "../../../../src/core/testing";
 import { WaitableUploader } from "../../../utils";
 import type { PingPayload } from "../../../../src/core/pings/ping_payload";
 
@@ -769,8 +772,8 @@ describe("EventsDatabase", function() {
     // this will trigger initialization of the events database as well
     testResetGlean(testAppId, true, { httpClient }, false);
 
-    const { ping_info: { reason } } = (await waitForEventsPing) as PingPayload;
-    assert.strictEqual(reason, "startup");
+    const { ping_info: pingInfo } = (await waitForEventsPing) as PingPayload;
+    assert.strictEqual(pingInfo?.reason, "startup");
   });
 
   it("send the 'events' ping when max capacity is hit", async function () {
@@ -793,11 +796,233 @@ describe("EventsDatabase", function() {
       event.record();
     }
 
-    const { ping_info: { reason }, events } = (await waitForEventsPing) as PingPayload;
-    assert.strictEqual(reason, "max_capacity");
+    const { ping_info: pingInfo, events } = (await waitForEventsPing) as PingPayload;
+    assert.strictEqual(pingInfo?.reason, "max_capacity");
     assert.strictEqual(events?.length, 10);
 
     const leftoverEvents = Context.eventsDatabase.getPingEvents(EVENTS_PING_NAME, false);
     assert.strictEqual(leftoverEvents?.length, 5);
   });
+
+  describe("while following the visibility of the application", function () {
+    let hidden: boolean;
+    let visibilityChangeCallbacks: ((hidden: boolean) => void)[];
+
+    /**
+     * Changes the visibility of the application, calling the platform's visibility change callbacks.
+     *
+     * @param value Whether or not the application is hidden.
+     */
+    function setHidden(value: boolean): void {
+      hidden = value;
+      for (const callback of [...visibilityChangeCallbacks]) {
+        callback(value);
+      }
+    }
+
+    beforeEach(function () {
+      hidden = false;
+      visibilityChangeCallbacks = [];
+      TestPlatform.lifecycle = {
+        isHidden: () => hidden,
+        onVisibilityChange: (callback) => {
+          visibilityChangeCallbacks.push(callback);
+          return () => {
+            visibilityChangeCallbacks = visibilityChangeCallbacks.filter(c => c !== callback);
+          };
+        }
+      };
+    });
+
+    afterEach(function () {
+      delete TestPlatform.lifecycle;
+    });
+
+    it("send the 'events' ping when the application is hidden and events are batched", async function () {
+      // Restore timer APIs for WaitableUploader to work
+      clock.restore();
+
+      const httpClient = new WaitableUploader();
+      // The application id contains the ping name as well,
+      // match the whole path segment not to catch the `baseline` ping.
+      const waitForEventsPing = httpClient.waitForPingSubmission(`/${EVENTS_PING_NAME}/`);
+      // Batched events are flushed without `enableAutoLifecyclePings`.
+      testResetGlean(testAppId, true, { httpClient, maxEvents: 10 });
+
+      const event = new EventMetricType({
+        category: "test",
+        name: "event",
+        sendInPings: [EVENTS_PING_NAME],
+        lifetime: Lifetime.Ping,
+        disabled: false
+      });
+      event.record();
+
+      setHidden(true);
+
+      const { ping_info: pingInfo, events } = (await waitForEventsPing) as PingPayload;
+      assert.strictEqual(pingInfo?.reason, "inactive");
+      assert.strictEqual(events?.length, 1);
+    });
+
+    it("the 'events' ping is submitted once when lifecycle pings are submitted automatically", function () {
+      testResetGlean(testAppId, true, { maxEvents: 10, enableAutoLifecyclePings: true });
+      const submitSpy = sandbox.spy(Context.corePings.events, "submit");
+
+      setHidden(true);
+      assert.ok(submitSpy.calledOnceWith("inactive"));
+    });
+
+    it("the 'events' ping is not submitted when the application is hidden and events are not batched", function () {
+      testResetGlean(testAppId);
+      const submitSpy = sandbox.spy(Context.corePings.events, "submit");
+
+      setHidden(true);
+      assert.strictEqual(submitSpy.callCount, 0);
+      assert.strictEqual(visibilityChangeCallbacks.length, 0);
+    });
+
+    it("events recorded while the application is hidden are submitted right away", function () {
+      hidden = true;
+      testResetGlean(testAppId, true, { maxEvents: 10 });
+      const submitSpy = sandbox.spy(Context.corePings.events, "submit");
+
+      const event = new EventMetricType({
+        category: "test",
+        name: "event",
+        sendInPings: [EVENTS_PING_NAME],
+        lifetime: Lifetime.Ping,
+        disabled: false
+      });
+      event.record();
+      assert.ok(submitSpy.calledOnceWith("inactive"));
+      assert.strictEqual(Context.eventsDatabase.getPingEvents(EVENTS_PING_NAME, false), undefined);
+    });
+
+    it("leftover events are submitted in case the application is hidden at initialize", function () {
+      testResetGlean(testAppId, true, { maxEvents: 10 });
+      const event = new EventMetricType({
+        category: "test",
+        name: "event",
+        sendInPings: [EVENTS_PING_NAME],
+        lifetime: Lifetime.Ping,
+        disabled: false
+      });
+      event.record();
+
+      hidden = true;
+      const submitSpy = sandbox.spy(PingType.prototype, "submit");
+      testResetGlean(testAppId, false, { maxEvents: 10 });
+      assert.ok(submitSpy.calledWith("inactive"));
+      assert.strictEqual(Context.eventsDatabase.getPingEvents(EVENTS_PING_NAME, false), undefined);
+    });
+
+    it("the visibility of the application is no longer followed after uninitialize", function () {
+      testResetGlean(testAppId, true, { maxEvents: 10 });
+      assert.strictEqual(visibilityChangeCallbacks.length, 1);
+
+      testUninitializeGlean();
+      assert.strictEqual(visibilityChangeCallbacks.length, 0);
+    });
+  });
+
+  it("send the 'events' ping when the client becomes inactive on platforms which cannot tell the visibility", function () {
+    testResetGlean(testAppId, true, { maxEvents: 10 });
+    const submitSpy = sandbox.spy(Context.corePings.events, "submit");
+
+    Glean.handleClientActive();
+    Glean.handleClientInactive();
+    assert.ok(submitSpy.calledOnceWith("inactive"));
+  });
+
+  it("send the 'events' ping when its oldest event reaches the maximum age", function () {
+    testResetGlean(testAppId, true, { maxEvents: 10, maxEventsAge: 60 });
+    const setTimeoutStub = sandbox.stub(TestPlatform.timer, "setTimeout").returns(1);
+    const clearTimeoutSpy = sandbox.spy(TestPlatform.timer, "clearTimeout");
+    const submitSpy = sandbox.spy(Context.corePings.events, "submit");
+
+    const event = new EventMetricType({
+      category: "test",
+      name: "event",
+      sendInPings: [EVENTS_PING_NAME],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    event.record();
+    event.record();
+
+    // Only the first event schedules the submission.
+    assert.strictEqual(setTimeoutStub.callCount, 1);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 60 * 1000);
+
+    (setTimeoutStub.lastCall.args[0] as () => void)();
+    assert.ok(submitSpy.calledOnceWith("max_age"));
+    assert.strictEqual(Context.eventsDatabase.getPingEvents(EVENTS_PING_NAME, false), undefined);
+
+    // Submitting the ping for any other reason resets the timer as well.
+    event.record();
+    assert.strictEqual(setTimeoutStub.callCount, 2);
+    Context.corePings.events.submit("inactive");
+    assert.ok(clearTimeoutSpy.calledOnceWith(1));
+
+    event.record();
+    assert.strictEqual(setTimeoutStub.callCount, 3);
+  });
+
+  it("leftover events from the previous run schedule the maximum age submission at startup", function () {
+    testResetGlean(testAppId, true, { maxEvents: 10, maxEventsAge: 60 });
+    const setTimeoutStub = sandbox.stub(TestPlatform.timer, "setTimeout").returns(1);
+
+    const event = new EventMetricType({
+      category: "test",
+      name: "event",
+      sendInPings: [EVENTS_PING_NAME],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    event.record();
+    assert.strictEqual(setTimeoutStub.callCount, 1);
+
+    // The submission is scheduled for the remaining time, since the event was recorded in the previous run.
+    clock.tick(20 * 1000);
+    testResetGlean(testAppId, true, { maxEvents: 10, maxEventsAge: 60 }, false);
+    assert.strictEqual(setTimeoutStub.callCount, 2);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 40 * 1000);
+  });
+
+  it("leftover events from the previous run which are too old are submitted at startup", function () {
+    testResetGlean(testAppId, true, { maxEvents: 10, maxEventsAge: 60 });
+    sandbox.stub(TestPlatform.timer, "setTimeout").returns(1);
+    const submitSpy = sandbox.spy(PingType.prototype, "submit");
+
+    const event = new EventMetricType({
+      category: "test",
+      name: "event",
+      sendInPings: [EVENTS_PING_NAME],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    event.record();
+
+    // Short runs do not prevent the events from being submitted once they are too old.
+    clock.tick(61 * 1000);
+    testResetGlean(testAppId, true, { maxEvents: 10, maxEventsAge: 60 }, false);
+    assert.ok(submitSpy.calledOnceWith("max_age"));
+    assert.strictEqual(Context.eventsDatabase.getPingEvents(EVENTS_PING_NAME, false), undefined);
+  });
+
+  it("the maximum age submission is not scheduled when no maximum age is configured", function () {
+    testResetGlean(testAppId, true, { maxEvents: 10 });
+    const setTimeoutStub = sandbox.stub(TestPlatform.timer, "setTimeout").returns(1);
+
+    const event = new EventMetricType({
+      category: "test",
+      name: "event",
+      sendInPings: [EVENTS_PING_NAME],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    event.record();
+    assert.strictEqual(setTimeoutStub.callCount, 0);
+  });
 });
@@ -0,0 +1,157 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+
+import Glean from "../../../../src/core/glean";
+import {
+  InternalExperimentMetricType,
+  MAX_EXPERIMENTS_EXTRAS_SIZE,
+  MAX_EXPERIMENTS_IDS_LEN,
+  MAX_EXPERIMENT_VALUE_LEN
+} from "../../../../src/core/metrics/types/experiment";
+import { InternalPingType as PingType } from "../../../../src/core/pings/ping_type";
+import { Lifetime } from "../../../../src/core/metrics/lifetime";
+import { Context } from "../../../../src/core/context";
+import { ErrorType } from "../../../../src/core/error/error_type";
+import * as PingMaker from "../../../../src/core/pings/maker";
+import { testResetGlean } from "../../../../src/core/testing";
+import { INTERNAL_STORAGE, METRICS_PING_NAME } from "../../../../src/core/constants";
+
+describe("ExperimentMetric", function() {
+  const testAppId = `gleanjs.test.${this.title}`;
+
+  beforeEach(function() {
+    testResetGlean(testAppId);
+  });
+
+  it("experiments can be set active and inactive", function() {
+    Glean.setExperimentActive("experiment", "branch", { key: "value" });
+    assert.deepStrictEqual(
+      Glean.testGetExperimentData("experiment"),
+      { branch: "branch", extra: { key: "value" } }
+    );
+
+    Glean.setExperimentInactive("experiment");
+    assert.strictEqual(Glean.testGetExperimentData("experiment"), undefined);
+  });
+
+  it("setting an experiment active again overwrites its data", function() {
+    Glean.setExperimentActive("experiment", "branch", { key: "value" });
+    Glean.setExperimentActive("experiment", "other-branch");
+    assert.deepStrictEqual(Glean.testGetExperimentData("experiment"), { branch: "other-branch" });
+  });
+
+  it("attempting to set an experiment active when glean upload is disabled is a no-op", function() {
+    Glean.setUploadEnabled(false);
+
+    Glean.setExperimentActive("experiment", "branch");
+    assert.strictEqual(Glean.testGetExperimentData("experiment"), undefined);
+  });
+
+  it("experiments are cleared on restart", function() {
+    Glean.setExperimentActive("experiment", "branch");
+
+    testResetGlean(testAppId, true, undefined, false);
+    assert.strictEqual(Glean.testGetExperimentData("experiment"), undefined);
+  });
+
+  it("active experiments are reported in ping_info", function() {
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+    });
+    assert.ok(!("experiments" in PingMaker.buildPingInfoSection(ping)));
+
+    Glean.setExperimentActive("experiment", "branch", { key: "value" });
+    Glean.setExperimentActive("other.experiment", "other-branch");
+    assert.deepStrictEqual(PingMaker.buildPingInfoSection(ping).experiments, {
+      "experiment": { branch: "branch", extra: { key: "value" } },
+      "other.experiment": { branch: "other-branch" }
+    });
+
+    // Experiments are not cleared after a ping is built.
+    Glean.setExperimentInactive("experiment");
+    assert.deepStrictEqual(PingMaker.buildPingInfoSection(ping).experiments, {
+      "other.experiment": { branch: "other-branch" }
+    });
+  });
+
+  it("long experiment ids are truncated and an error is recorded", function() {
+    const longId = "a".repeat(MAX_EXPERIMENTS_IDS_LEN + 10);
+    Glean.setExperimentActive(longId, "branch");
+
+    const metric = new InternalExperimentMetricType(longId);
+    assert.deepStrictEqual(metric.testGetValue(), { branch: "branch" });
+    assert.strictEqual(metric.testGetNumRecordedErrors(ErrorType.InvalidOverflow), 1);
+    assert.deepStrictEqual(
+      Glean.testGetExperimentData("a".repeat(MAX_EXPERIMENTS_IDS_LEN)),
+      { branch: "branch" }
+    );
+  });
+
+  it("errors are recorded in the metrics ping", function() {
+    Glean.setExperimentActive("a".repeat(MAX_EXPERIMENTS_IDS_LEN + 10), "branch");
+
+    const metric = new InternalExperimentMetricType("a".repeat(MAX_EXPERIMENTS_IDS_LEN + 10));
+    assert.strictEqual(
+      metric.testGetNumRecordedErrors(ErrorType.InvalidOverflow, METRICS_PING_NAME),
+      1
+    );
+    assert.strictEqual(
+      metric.testGetNumRecordedErrors(ErrorType.InvalidOverflow, INTERNAL_STORAGE),
+      0
+    );
+
+    const metricsData = Context.metricsDatabase.getPingMetrics(METRICS_PING_NAME, false);
+    assert.ok(metricsData?.labeled_counter?.["glean.error.invalid_overflow"]);
+  });
+
+  it("long branches and extras are truncated and errors are recorded", function() {
+    const longValue = "b".repeat(MAX_EXPERIMENT_VALUE_LEN + 10);
+    const truncatedValue = "b".repeat(MAX_EXPERIMENT_VALUE_LEN);
+    Glean.setExperimentActive("experiment", longValue, { [longValue]: longValue });
+
+    const metric = new InternalExperimentMetricType("experiment");
+    assert.deepStrictEqual(metric.testGetValue(), {
+      branch: truncatedValue,
+      extra: { [truncatedValue]: truncatedValue }
+    });
+    assert.strictEqual(metric.testGetNumRecordedErrors(ErrorType.InvalidOverflow), 3);
+  });
+
+  it("extras over the limit are dropped and an error is recorded", function() {
+    const extra: Record<string, string> = {};
+    for (let i = 0; i < MAX_EXPERIMENTS_EXTRAS_SIZE + 5; i++) {
+      extra[`key${i}`] = `value${i}`;
+    }
+    Glean.setExperimentActive("experiment", "branch", extra);
+
+    const metric = new InternalExperimentMetricType("experiment");
+    const recordedExtra = metric.testGetValue()?.extra || {};
+    assert.strictEqual(Object.keys(recordedExtra).length, MAX_EXPERIMENTS_EXTRAS_SIZE);
+    assert.strictEqual(recordedExtra.key0, "value0");
+    assert.ok(!(`key${MAX_EXPERIMENTS_EXTRAS_SIZE}` in recordedExtra));
+    assert.strictEqual(metric.testGetNumRecordedErrors(ErrorType.InvalidValue), 1);
+  });
+
+  it("invalid extras are not recorded and an error is recorded", function() {
+    // @ts-expect-error Testing invalid extras.
+    Glean.setExperimentActive("experiment", "branch", { key: 1 });
+
+    const metric = new InternalExperimentMetricType("experiment");
+    assert.strictEqual(metric.testGetValue(), undefined);
+    assert.strictEqual(metric.testGetNumRecordedErrors(ErrorType.InvalidType), 1);
+  });
+
+  it("experiments are stored for the application lifetime", function() {
+    const metric = new InternalExperimentMetricType("experiment");
+    assert.strictEqual(metric.lifetime, Lifetime.Application);
+
+    Glean.setExperimentActive("experiment", "branch");
+    Context.metricsDatabase.clear(Lifetime.Application);
+    assert.strictEqual(Glean.testGetExperimentData("experiment"), undefined);
+  });
+});
@@ -0,0 +1,114 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import sinon from "sinon";
+
+import Glean from "../../../src/core/glean";
+import MetricsPingScheduler from "../../../src/core/metrics_ping_scheduler";
+import TestPlatform from "../../../src/platform/test";
+import { Context } from "../../../src/core/context";
+import { testResetGlean } from "../../../src/core/testing";
+
+const sandbox = sinon.createSandbox();
+
+const SCHEDULE_HOUR = 4;
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("MetricsPingScheduler", function() {
+  const testAppId = `gleanjs.test.${this.title}`;
+
+  let now: Date;
+  let setTimeoutStub: sinon.SinonStub;
+  let submitStub: sinon.SinonStub;
+
+  /**
+   * Builds a scheduler which reads the current time from `now`.
+   *
+   * @returns The scheduler.
+   */
+  function buildScheduler(): MetricsPingScheduler {
+    return new MetricsPingScheduler(SCHEDULE_HOUR, () => now);
+  }
+
+  /**
+   * Runs the submission scheduled through the last call to `setTimeout`.
+   *
+   * @param firedAt The time the timeout fires at.
+   */
+  function runScheduledSubmission(firedAt: Date) {
+    now = firedAt;
+    (setTimeoutStub.lastCall.args[0] as () => void)();
+  }
+
+  beforeEach(function() {
+    testResetGlean(testAppId);
+    setTimeoutStub = sandbox.stub(TestPlatform.timer, "setTimeout").returns(1);
+    submitStub = sandbox.stub(Context.corePings.metrics, "submit");
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("the ping is scheduled for later today in case it is not due yet", function() {
+    now = new Date(2024, 0, 10, 1, 0);
+    buildScheduler().start();
+
+    assert.strictEqual(submitStub.callCount, 0);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 3 * HOUR_MS);
+
+    runScheduledSubmission(new Date(2024, 0, 10, SCHEDULE_HOUR, 0));
+    assert.ok(submitStub.calledOnceWith("today"));
+    // The next submission happens at the same time the next day.
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 24 * HOUR_MS);
+
+    runScheduledSubmission(new Date(2024, 0, 11, SCHEDULE_HOUR, 0));
+    assert.strictEqual(submitStub.callCount, 2);
+    assert.strictEqual(submitStub.lastCall.args[0], "reschedule");
+  });
+
+  it("an overdue ping is submitted right away", function() {
+    now = new Date(2024, 0, 10, 10, 0);
+    buildScheduler().start();
+
+    assert.ok(submitStub.calledOnceWith("overdue"));
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 18 * HOUR_MS);
+  });
+
+  it("the ping is not submitted again on the same day after a restart", function() {
+    now = new Date(2024, 0, 10, 10, 0);
+    buildScheduler().start();
+    assert.strictEqual(submitStub.callCount, 1);
+
+    now = new Date(2024, 0, 10, 22, 0);
+    buildScheduler().start();
+    assert.strictEqual(submitStub.callCount, 1);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 6 * HOUR_MS);
+
+    // The ping sent late yesterday does not prevent today's ping from being sent.
+    now = new Date(2024, 0, 11, 2, 0);
+    buildScheduler().start();
+    assert.strictEqual(submitStub.callCount, 1);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 2 * HOUR_MS);
+  });
+
+  it("stopping the scheduler cancels the next submission", function() {
+    const clearTimeoutSpy = sandbox.spy(TestPlatform.timer, "clearTimeout");
+    now = new Date(2024, 0, 10, 1, 0);
+    const scheduler = buildScheduler();
+    scheduler.start();
+
+    scheduler.stop();
+    assert.ok(clearTimeoutSpy.calledOnceWith(1));
+  });
+
+  it("the scheduler only runs when the metrics ping is enabled", function() {
+    testResetGlean(testAppId);
+    assert.strictEqual(Glean.metricsPingScheduler, undefined);
+
+    testResetGlean(testAppId, true, { enableMetricsPing: true });
+    assert.ok(Glean.metricsPingScheduler);
+  });
+});
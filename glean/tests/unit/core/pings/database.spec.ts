@@ -107,10 +107,13 @@ describe("PingsDatabase", function() {
       assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "2022-03-22T13:46:27.798Z" }), false);
       assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "not valid date", payload: {}, path: "some/path" }), false);
       assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: 1647956932896, payload: {}, path: "some/path" }), false);
+      assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "2022-03-22T13:46:27.798Z", payload: {}, path: "some/path", attempts: "1" }), false);
+      assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "2022-03-22T13:46:27.798Z", payload: {}, path: "some/path", attempts: 1.5 }), false);
 
       // Valid values
       assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "2022-03-22T13:46:27.798Z", payload: {}, path: "some/path", headers: {} }), true);
       assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "2022-03-22T13:46:27.798Z", payload: {}, path: "some/path" }), true);
+      assert.strictEqual(isValidPingInternalRepresentation({ collectionDate: "2022-03-22T13:46:27.798Z", payload: {}, path: "some/path", attempts: 2 }), true);
     });
 
     it("isValidPingInternalRepresentation validates correctly real generated pings", function () {
@@ -350,6 +353,39 @@ describe("PingsDatabase", function() {
     });
   });
 
+  describe("upload attempts", function() {
+    it("updating upload attempts works", function() {
+      const db = new Database();
+      const path = "some/random/path/doesnt/matter";
+      const payload = {
+        ping_info: {
+          seq: 1,
+          start_time: "2020-01-11+01:00",
+          end_time: "2020-01-12+01:00",
+        },
+        client_info: {
+          telemetry_sdk_build: "32.0.0"
+        }
+      };
+
+      db.recordPing(path, "foo", payload);
+      db.updateUploadAttempts("foo", 2);
+
+      const [[identifier, ping]] = db.getAllPings();
+      assert.strictEqual(identifier, "foo");
+      assert.strictEqual(ping.attempts, 2);
+      assert.deepStrictEqual(ping.payload, payload);
+    });
+
+    it("updating upload attempts of a ping that is not in the db is a no-op", function() {
+      const db = new Database();
+
+      db.updateUploadAttempts("no existo", 1);
+      assert.strictEqual(db.getAllPings().length, 0);
+      assert.strictEqual(db["store"].get(["no existo"]), undefined);
+    });
+  });
+
   describe("delete", function() {
     it("deleting works", function() {
       const db = new Database();
@@ -436,6 +472,26 @@ describe("PingsDatabase", function() {
       db.clearAll();
       assert.strictEqual(Object.keys(db["store"].get() || {}).length, 0);
     });
+
+    it("clearing pending pings keeps deletion-request pings", function() {
+      const db = new Database();
+      const payload = {
+        ping_info: {
+          seq: 1,
+          start_time: "2020-01-11+01:00",
+          end_time: "2020-01-12+01:00",
+        },
+        client_info: {
+          telemetry_sdk_build: "32.0.0"
+        }
+      };
+
+      db.recordPing("/submit/some-app/custom/1/foo", "foo", payload);
+      db.recordPing("/submit/some-app/deletion-request/1/bar", "bar", payload);
+
+      db.clearPendingPings();
+      assert.deepStrictEqual(Object.keys(db["store"].get() || {}), ["bar"]);
+    });
   });
 
   describe("pending pings", function() {
@@ -483,5 +539,35 @@ describe("PingsDatabase", function() {
         assert.ok(id in pingIds);
       }
     });
+
+    it("scanning the pending pings directory respects the configured quota", function() {
+      testResetGlean(testAppId, true, { uploadPolicy: { maxPendingPings: 3 } });
+
+      const pingIds: string[] = [];
+      const db = new Database();
+      const payload = {
+        ping_info: {
+          seq: 1,
+          start_time: "2018-02-24+01:00",
+          end_time: "2018-02-25+11:00",
+        },
+        client_info: {
+          telemetry_sdk_build: "32.0.0"
+        }
+      };
+
+      for (let id = 0; id < 5; id++) {
+        db.recordPing("some/random/path/doesnt/matter", `id-${id}`, payload);
+        // Make sure every ping has a different collection date.
+        clock.tick(1);
+      }
+
+      db.attachObserver({ update: (id: string) => pingIds.push(id) });
+      db.scanPendingPings();
+
+      // Only the newest pings are kept.
+      assert.deepStrictEqual(pingIds, ["id-2", "id-3", "id-4"]);
+      assert.strictEqual(db.getAllPings().length, 3);
+    });
   });
 });
@@ -11,10 +11,12 @@ import type { JSONArray } from "../../../../src/core/utils";
 import Glean from "../../../../src/core/glean";
 import { Context } from "../../../../src/core/context";
 import EventMetricType from "../../../../src/core/metrics/types/event";
+import { InternalCounterMetricType as CounterMetricType } from "../../../../src/core/metrics/types/counter";
 import { InternalPingType as PingType } from "../../../../src/core/pings/ping_type";
 import { Lifetime } from "../../../../src/core/metrics/lifetime";
 import * as PingMaker from "../../../../src/core/pings/maker";
 import { testResetGlean, testRestartGlean } from "../../../../src/core/testing";
+import { PING_INFO_STORAGE } from "../../../../src/core/constants";
 
 const sandbox = sinon.createSandbox();
 
@@ -43,6 +45,38 @@ describe("PingMaker", function() {
     assert.ok(startTime.getTime() <= endTime.getTime());
   });
 
+  it("ping info start and end times are reported with minute precision by default", function() {
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+    });
+    PingMaker.buildPingInfoSection(ping);
+    const pingInfo = PingMaker.buildPingInfoSection(ping);
+
+    const minutePrecision = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}[+-]\d{2}:\d{2}$/;
+    assert.ok(minutePrecision.test(pingInfo.start_time));
+    assert.ok(minutePrecision.test(pingInfo.end_time));
+  });
+
+  it("ping info start and end times are reported with millisecond precision for precise pings", function() {
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+      preciseTimestamps: true
+    });
+    // Submit twice, so that the start time of the second ping is the stored end time of the first.
+    const firstPingInfo = PingMaker.buildPingInfoSection(ping);
+    const pingInfo = PingMaker.buildPingInfoSection(ping);
+
+    const millisecondPrecision = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}[+-]\d{2}:\d{2}$/;
+    assert.ok(millisecondPrecision.test(firstPingInfo.start_time));
+    assert.ok(millisecondPrecision.test(pingInfo.start_time));
+    assert.ok(millisecondPrecision.test(pingInfo.end_time));
+    assert.strictEqual(pingInfo.start_time, firstPingInfo.end_time);
+  });
+
   it("buildPingInfo must report all the required fields", function() {
     const ping = new PingType({
       name: "custom",
@@ -101,6 +135,39 @@ describe("PingMaker", function() {
     assert.strictEqual(PingMaker.collectPing(ping), undefined);
   });
 
+  it("collectPing leaves the info sections out of pings which do not include them", function() {
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: true,
+      includeInfoSections: false
+    });
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounter",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    counter.add();
+
+    const payload = PingMaker.collectPing(ping);
+    assert.deepStrictEqual(payload, { metrics: { counter: { "aCategory.aCounter": 1 } } });
+
+    // The sequence number is not incremented either.
+    PingMaker.collectPing(ping);
+    assert.strictEqual(
+      Context.metricsDatabase.getMetric(PING_INFO_STORAGE, new CounterMetricType({
+        category: "",
+        name: "custom#sequence",
+        sendInPings: [PING_INFO_STORAGE],
+        lifetime: Lifetime.User,
+        disabled: false
+      })),
+      undefined
+    );
+  });
+
   it("sequence numbers must be sequential", function() {
     const ping1 = new PingType({
       name: "ping1",
@@ -9,11 +9,13 @@ import CounterMetricType from "../../../../src/core/metrics/types/counter";
 import { Lifetime } from "../../../../src/core/metrics/lifetime";
 import Glean from "../../../../src/core/glean";
 import { Context } from "../../../../src/core/context";
+import { isDeletionRequest } from "../../../../src/core/pings/database";
 import { stopGleanUploader } from "../../../utils";
 import type { JSONObject } from "../../../../src/core/utils";
 import TestPlatform from "../../../../src/platform/test";
 import { testResetGlean } from "../../../../src/core/testing";
-import { testUninitializeGlean } from "../../../../src/core/testing";
+import { testInitializeGlean, testUninitializeGlean } from "../../../../src/core/testing";
+import EventMetricType from "../../../../src/core/metrics/types/event";
 
 const sandbox = sinon.createSandbox();
 
@@ -51,6 +53,101 @@ describe("PingType", function () {
     assert.strictEqual(Object.keys(storedPings).length, 1);
   });
 
+  it("metrics recorded before collection are included in the ping", function () {
+    stopGleanUploader();
+
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+      reasonCodes: ["test"]
+    });
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounterMetric",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+
+    const callback = sandbox.spy();
+    ping.onBeforeCollect((reason) => {
+      callback(reason);
+      counter.add(5);
+    });
+    ping.submit("test");
+
+    assert.ok(callback.calledOnceWith("test"));
+    const storedPings = Context.pingsDatabase.getAllPings();
+    assert.strictEqual(storedPings.length, 1);
+    assert.deepStrictEqual(
+      (storedPings[0][1].payload.metrics as JSONObject).counter,
+      { "aCategory.aCounterMetric": 5 }
+    );
+    // Ping lifetime data recorded by the callback is cleared along with the rest of the ping.
+    assert.strictEqual(counter.testGetValue("custom"), undefined);
+  });
+
+  it("validators see the metrics recorded by the callback before collection", async function () {
+    stopGleanUploader();
+
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+      reasonCodes: ["test"]
+    });
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounterMetric",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    ping.onBeforeCollect(() => counter.add(5));
+
+    let validatorRun = false;
+    const p = ping.testBeforeNextSubmit(() => {
+      assert.strictEqual(counter.testGetValue(), 5);
+      validatorRun = true;
+      return Promise.resolve();
+    });
+
+    ping.submit("test");
+    await p;
+    assert.ok(validatorRun);
+  });
+
+  it("the ping is collected even if the callback before collection throws", function () {
+    stopGleanUploader();
+
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: true,
+    });
+    ping.onBeforeCollect(() => {
+      throw new Error("Oops");
+    });
+    ping.submit();
+
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 1);
+  });
+
+  it("the callback before collection does not run for pings which are not submitted", function () {
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: true,
+    });
+    const callback = sandbox.spy();
+    ping.onBeforeCollect(callback);
+
+    Glean.setPingEnabled("custom", false);
+    ping.submit();
+    assert.strictEqual(callback.callCount, 0);
+  });
+
   it("empty pings with send if empty flag are submitted", function () {
     // Disable ping uploading for it not to interfere with this tests.
     stopGleanUploader();
@@ -84,8 +181,125 @@ describe("PingType", function () {
       sendIfEmpty: false,
     });
     ping.submit();
-    const storedPings = Context.pingsDatabase["store"].get();
-    assert.strictEqual(storedPings, undefined);
+    // Only the deletion-request ping, pending upload, is left in storage.
+    const storedPings = Context.pingsDatabase.getAllPings();
+    assert.ok(storedPings.every(([_, storedPing]) => isDeletionRequest(storedPing)));
+  });
+
+  it("pings can be disabled and enabled at runtime", function () {
+    stopGleanUploader();
+
+    const ping = new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+    });
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounterMetric",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.User,
+      disabled: false
+    });
+    const event = new EventMetricType({
+      category: "aCategory",
+      name: "anEvent",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    counter.add();
+    event.record();
+
+    // Disabling the ping drops its pending data and stops recording to it.
+    Glean.setPingEnabled("custom", false);
+    assert.strictEqual(counter.testGetValue(), undefined);
+    assert.strictEqual(event.testGetValue(), undefined);
+    counter.add();
+    event.record();
+    assert.strictEqual(counter.testGetValue(), undefined);
+    assert.strictEqual(event.testGetValue(), undefined);
+
+    ping.submit();
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+
+    Glean.setPingEnabled("custom", true);
+    counter.add();
+    assert.strictEqual(counter.testGetValue(), 1);
+    ping.submit();
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 1);
+  });
+
+  it("disabling a ping does not affect other pings", function () {
+    new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+    });
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounterMetric",
+      sendInPings: ["custom", "other"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    counter.add();
+
+    Glean.setPingEnabled("custom", false);
+    counter.add();
+    assert.strictEqual(counter.testGetValue("custom"), undefined);
+    assert.strictEqual(counter.testGetValue("other"), 2);
+    assert.strictEqual(Context.uploadEnabled, true);
+  });
+
+  it("data left over for disabled pings is dropped at initialize", function () {
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounterMetric",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.User,
+      disabled: false
+    });
+    counter.add();
+
+    testUninitializeGlean(false);
+    new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+      enabled: false
+    });
+    testInitializeGlean(testAppId);
+    assert.strictEqual(counter.testGetValue(), undefined);
+  });
+
+  it("pings stay registered when Glean is reset", function () {
+    new PingType({
+      name: "custom",
+      includeClientId: true,
+      sendIfEmpty: false,
+      followsCollectionEnabled: false
+    });
+    const counter = new CounterMetricType({
+      category: "aCategory",
+      name: "aCounterMetric",
+      sendInPings: ["custom"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+
+    testResetGlean(testAppId, false);
+    assert.strictEqual(Context.getPing("custom")?.followsCollectionEnabled, false);
+
+    // The ping still does not follow collection.
+    Glean.setUploadEnabled(false);
+    counter.add();
+    assert.strictEqual(counter.testGetValue(), 1);
+
+    // The ping can still be disabled by name.
+    Glean.setPingEnabled("custom", false);
+    counter.add();
+    assert.strictEqual(counter.testGetValue(), undefined);
   });
 
   it("no pings are submitted if Glean has not been initialized", function () {
@@ -0,0 +1,241 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import type RemoteConfigFetcher from "../../../src/core/remote_config_fetcher";
+
+import assert from "assert";
+import sinon from "sinon";
+
+import Glean from "../../../src/core/glean";
+import CounterMetricType from "../../../src/core/metrics/types/counter";
+import TestPlatform from "../../../src/platform/test";
+import { Lifetime } from "../../../src/core/metrics/lifetime";
+import { Context } from "../../../src/core/context";
+import { testResetGlean } from "../../../src/core/testing";
+
+const sandbox = sinon.createSandbox();
+
+const REMOTE_CONFIG_URL = "https://config.example.com/glean.json";
+const REFRESH_INTERVAL = 60_000;
+
+describe("RemoteConfig", function() {
+  const testAppId = `gleanjs.test.${this.title}`;
+  const fetcher = TestPlatform.remoteConfigFetcher as RemoteConfigFetcher;
+
+  let metric: CounterMetricType;
+  let setTimeoutStub: sinon.SinonStub;
+
+  /**
+   * Resets Glean with a remote configuration URL.
+   *
+   * @param clearStores Whether or not to clear the stores while resetting.
+   * @param url The remote configuration URL.
+   */
+  function resetWithRemoteConfig(clearStores = true, url = REMOTE_CONFIG_URL) {
+    testResetGlean(testAppId, true, {
+      remoteConfigUrl: url,
+      remoteConfigRefreshInterval: REFRESH_INTERVAL
+    }, clearStores);
+  }
+
+  /**
+   * Runs the refresh scheduled through the last call to `setTimeout`.
+   */
+  async function runScheduledRefresh() {
+    (setTimeoutStub.lastCall.args[0] as () => void)();
+    // Wait for the fetch to resolve and the next refresh to be scheduled.
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  beforeEach(function() {
+    setTimeoutStub = sandbox.stub(TestPlatform.timer, "setTimeout").returns(1);
+    metric = new CounterMetricType({
+      category: "aCategory",
+      name: "metric",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+    testResetGlean(testAppId);
+  });
+
+  it("the configuration is fetched and applied right away on first run", async function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch")
+      .resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+
+    resetWithRemoteConfig();
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 0);
+
+    await runScheduledRefresh();
+    assert.ok(fetchStub.calledOnceWith(REMOTE_CONFIG_URL));
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+  });
+
+  it("the configuration is refreshed on an interval", async function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch");
+    fetchStub.onFirstCall().resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    fetchStub.onSecondCall().resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": true } }));
+
+    resetWithRemoteConfig();
+    await runScheduledRefresh();
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], REFRESH_INTERVAL);
+
+    await runScheduledRefresh();
+    assert.strictEqual(fetchStub.callCount, 2);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], REFRESH_INTERVAL);
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+  });
+
+  it("entries removed from the remote configuration are reverted", async function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch");
+    fetchStub.onFirstCall().resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    fetchStub.onSecondCall().resolves(JSON.stringify({}));
+
+    resetWithRemoteConfig();
+    await runScheduledRefresh();
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+
+    await runScheduledRefresh();
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+  });
+
+  it("the remote configuration takes precedence over, but does not replace, the applied configuration", async function() {
+    const otherMetric = new CounterMetricType({
+      category: "aCategory",
+      name: "otherMetric",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    sandbox.stub(fetcher, "fetch")
+      .resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": true } }));
+    resetWithRemoteConfig();
+    Glean.applyServerKnobsConfig(JSON.stringify({
+      metrics_enabled: { "aCategory.metric": false, "aCategory.otherMetric": false }
+    }));
+    await runScheduledRefresh();
+
+    metric.add(1);
+    otherMetric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+    assert.strictEqual(otherMetric.testGetValue("aPing"), undefined);
+
+    // The applied configuration is still there after initializing with the cached remote configuration.
+    resetWithRemoteConfig(false);
+    metric.add(1);
+    otherMetric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 2);
+    assert.strictEqual(otherMetric.testGetValue("aPing"), undefined);
+  });
+
+  it("the cached configuration is applied at initialize without waiting for the network", async function() {
+    sandbox.stub(fetcher, "fetch")
+      .resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    resetWithRemoteConfig();
+    await runScheduledRefresh();
+
+    // Clear the server knobs, so that only the cached remote configuration may disable the metric.
+    Context.serverKnobs.clear();
+    resetWithRemoteConfig(false);
+
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+    // The cached configuration is fresh, so the next refresh only happens once it gets old.
+    const delay = setTimeoutStub.lastCall.args[1] as number;
+    assert.ok(delay > 0 && delay <= REFRESH_INTERVAL);
+  });
+
+  it("the cached configuration is not applied for a different URL", async function() {
+    sandbox.stub(fetcher, "fetch")
+      .resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    resetWithRemoteConfig();
+    await runScheduledRefresh();
+
+    Context.serverKnobs.clear();
+    resetWithRemoteConfig(false, "https://other.example.com/glean.json");
+
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], 0);
+  });
+
+  it("fetch failures do not block recording and are retried on the next refresh", async function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch");
+    fetchStub.onFirstCall().resolves(undefined);
+    fetchStub.onSecondCall().resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+
+    resetWithRemoteConfig();
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+
+    await runScheduledRefresh();
+    assert.strictEqual(setTimeoutStub.lastCall.args[1], REFRESH_INTERVAL);
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 2);
+
+    await runScheduledRefresh();
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 2);
+  });
+
+  it("invalid configurations are ignored and the current configuration is kept", async function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch");
+    fetchStub.onFirstCall().resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    fetchStub.onSecondCall().resolves("not json");
+    fetchStub.onThirdCall().resolves(JSON.stringify({ event_sampling_rates: { "aCategory.metric": 2 } }));
+
+    resetWithRemoteConfig();
+    await runScheduledRefresh();
+    await runScheduledRefresh();
+    await runScheduledRefresh();
+
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+    assert.deepStrictEqual(
+      new Context.platform.Storage("remoteConfig").get(["config"]),
+      { metrics_enabled: { "aCategory.metric": false } }
+    );
+  });
+
+  it("invalid cached configurations are deleted", function() {
+    const store = new Context.platform.Storage("remoteConfig");
+    store.update(["config"], () => "not a config");
+
+    resetWithRemoteConfig(false);
+    assert.strictEqual(store.get(), undefined);
+  });
+
+  it("refreshes stop when Glean is uninitialized", async function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch")
+      .resolves(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    const clearTimeoutSpy = sandbox.spy(TestPlatform.timer, "clearTimeout");
+
+    resetWithRemoteConfig();
+    const remoteConfig = Glean.remoteConfig;
+    testResetGlean(testAppId);
+    assert.ok(clearTimeoutSpy.calledWith(1));
+
+    // Configurations fetched after stopping are discarded.
+    await remoteConfig?.refresh();
+    assert.strictEqual(fetchStub.callCount, 1);
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+  });
+
+  it("nothing is fetched if no URL is configured", function() {
+    const fetchStub = sandbox.stub(fetcher, "fetch");
+
+    testResetGlean(testAppId);
+    assert.strictEqual(Glean.remoteConfig, undefined);
+    assert.strictEqual(fetchStub.callCount, 0);
+  });
+});
@@ -0,0 +1,234 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import sinon from "sinon";
+
+import Glean from "../../../src/core/glean";
+import CounterMetricType from "../../../src/core/metrics/types/counter";
+import EventMetricType, { InternalEventMetricType } from "../../../src/core/metrics/types/event";
+import { InternalPingType as PingType } from "../../../src/core/pings/ping_type";
+import { Lifetime } from "../../../src/core/metrics/lifetime";
+import { Context } from "../../../src/core/context";
+import { isValidServerKnobsConfig, validateServerKnobsConfig } from "../../../src/core/server_knobs";
+import { testResetGlean } from "../../../src/core/testing";
+
+const sandbox = sinon.createSandbox();
+
+/**
+ * Builds a counter metric.
+ *
+ * @param category The category of the metric.
+ * @param name The name of the metric.
+ * @param disabled Whether or not the metric is disabled at build time.
+ * @returns The counter metric.
+ */
+function buildCounter(category: string, name: string, disabled = false): CounterMetricType {
+  return new CounterMetricType({
+    category,
+    name,
+    sendInPings: ["aPing"],
+    lifetime: Lifetime.Ping,
+    disabled
+  });
+}
+
+describe("ServerKnobs", function() {
+  const testAppId = `gleanjs.test.${this.title}`;
+
+  beforeEach(function() {
+    testResetGlean(testAppId);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("metrics can be disabled and enabled at runtime", function() {
+    const enabledAtBuild = buildCounter("aCategory", "enabled");
+    const disabledAtBuild = buildCounter("aCategory", "disabled", true);
+
+    Glean.applyServerKnobsConfig(JSON.stringify({
+      metrics_enabled: {
+        "aCategory.enabled": false,
+        "aCategory.disabled": true
+      }
+    }));
+
+    enabledAtBuild.add(1);
+    disabledAtBuild.add(1);
+    assert.strictEqual(enabledAtBuild.testGetValue("aPing"), undefined);
+    assert.strictEqual(disabledAtBuild.testGetValue("aPing"), 1);
+  });
+
+  it("whole categories can be disabled and specific metrics take precedence", function() {
+    const metric = buildCounter("aCategory", "metric");
+    const otherMetric = buildCounter("aCategory", "otherMetric");
+    const otherCategoryMetric = buildCounter("otherCategory", "metric");
+
+    Glean.applyServerKnobsConfig(JSON.stringify({
+      metrics_enabled: {
+        "aCategory": false,
+        "aCategory.otherMetric": true
+      }
+    }));
+
+    metric.add(1);
+    otherMetric.add(1);
+    otherCategoryMetric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+    assert.strictEqual(otherMetric.testGetValue("aPing"), 1);
+    assert.strictEqual(otherCategoryMetric.testGetValue("aPing"), 1);
+  });
+
+  it("events can be disabled at runtime", function() {
+    const event = new EventMetricType({
+      category: "aCategory",
+      name: "event",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ metrics_enabled: { "aCategory.event": false } }));
+    event.record();
+    assert.strictEqual(event.testGetValue("aPing"), undefined);
+  });
+
+  it("pings can be disabled at runtime", function() {
+    const recordPingSpy = sandbox.spy(Context.pingsDatabase, "recordPing");
+    const ping = new PingType({
+      name: "aPing",
+      includeClientId: true,
+      sendIfEmpty: true,
+    });
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ pings_enabled: { "aPing": false } }));
+    ping.submit();
+    assert.strictEqual(recordPingSpy.callCount, 0);
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ pings_enabled: { "aPing": true } }));
+    ping.submit();
+    assert.strictEqual(recordPingSpy.callCount, 1);
+  });
+
+  it("metrics are not recorded for pings disabled at runtime", function() {
+    const metric = buildCounter("aCategory", "metric");
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ pings_enabled: { "aPing": false } }));
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ pings_enabled: { "aPing": true } }));
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+  });
+
+  it("the deletion-request ping cannot be disabled at runtime", function() {
+    Glean.applyServerKnobsConfig(JSON.stringify({ pings_enabled: { "deletion-request": false } }));
+    assert.strictEqual(Context.isPingEnabled("deletion-request"), true);
+  });
+
+  it("new configurations are merged into the current one", function() {
+    const metric = buildCounter("aCategory", "metric");
+    const otherMetric = buildCounter("aCategory", "otherMetric");
+
+    Glean.applyServerKnobsConfig(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    Glean.applyServerKnobsConfig(JSON.stringify({ metrics_enabled: { "aCategory.otherMetric": false } }));
+
+    metric.add(1);
+    otherMetric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+    assert.strictEqual(otherMetric.testGetValue("aPing"), undefined);
+  });
+
+  it("the configuration is persisted across restarts", function() {
+    Glean.applyServerKnobsConfig(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+
+    testResetGlean(testAppId, true, undefined, false);
+    const metric = buildCounter("aCategory", "metric");
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+  });
+
+  it("the configuration survives toggling upload", function() {
+    Glean.applyServerKnobsConfig(JSON.stringify({ metrics_enabled: { "aCategory.metric": false } }));
+    Glean.setUploadEnabled(false);
+    Glean.setUploadEnabled(true);
+
+    const metric = buildCounter("aCategory", "metric");
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), undefined);
+  });
+
+  it("invalid configurations are ignored", function() {
+    const metric = buildCounter("aCategory", "metric");
+
+    Glean.applyServerKnobsConfig("not json");
+    Glean.applyServerKnobsConfig(JSON.stringify({ metrics_enabled: { "aCategory.metric": "false" } }));
+    Glean.applyServerKnobsConfig(JSON.stringify([ "aCategory.metric" ]));
+
+    metric.add(1);
+    assert.strictEqual(metric.testGetValue("aPing"), 1);
+  });
+
+  it("invalid persisted configurations are deleted", function() {
+    const store = new Context.platform.Storage("serverKnobs");
+    store.update(["metrics_enabled"], () => "not a map");
+
+    testResetGlean(testAppId, true, undefined, false);
+    assert.strictEqual(store.get(), undefined);
+  });
+
+  it("validation of server knobs configurations works", function() {
+    assert.ok(isValidServerKnobsConfig({}));
+    assert.ok(isValidServerKnobsConfig({ metrics_enabled: { "a.b": true }, pings_enabled: { "c": false } }));
+    assert.ok(!isValidServerKnobsConfig({ metrics_enabled: { "a.b": 1 } }));
+    assert.ok(!isValidServerKnobsConfig({ pings_enabled: [] }));
+    assert.ok(!isValidServerKnobsConfig("{}"));
+    assert.ok(isValidServerKnobsConfig({ event_sampling_rates: { "a.b": 0, "c": 0.5, "d.e": 1 } }));
+    assert.ok(!isValidServerKnobsConfig({ event_sampling_rates: { "a.b": 1.5 } }));
+    assert.ok(!isValidServerKnobsConfig({ event_sampling_rates: { "a.b": "0.5" } }));
+  });
+
+  it("validation errors describe the problem found", function() {
+    assert.strictEqual(validateServerKnobsConfig({ metrics_enabled: { "a.b": true } }), undefined);
+    assert.strictEqual(
+      validateServerKnobsConfig({ metrics_enabled: { "a.b": 1 } }),
+      "\"metrics_enabled.a.b\" must be a boolean, got 1."
+    );
+    assert.strictEqual(
+      validateServerKnobsConfig({ pings_enabled: [] }),
+      "\"pings_enabled\" must be an object, got []."
+    );
+    assert.strictEqual(
+      validateServerKnobsConfig({ event_sampling_rates: { "a": -1 } }),
+      "\"event_sampling_rates.a\" must be a number between 0 and 1, got -1."
+    );
+  });
+
+  it("event sampling rates can be set for events and whole categories", function() {
+    const event = new InternalEventMetricType({
+      category: "aCategory",
+      name: "event",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    const otherEvent = new InternalEventMetricType({
+      category: "aCategory",
+      name: "otherEvent",
+      sendInPings: ["aPing"],
+      lifetime: Lifetime.Ping,
+      disabled: false
+    });
+    assert.strictEqual(Context.serverKnobs.getEventSamplingRate(event), undefined);
+
+    Glean.applyServerKnobsConfig(JSON.stringify({
+      event_sampling_rates: { "aCategory": 0.5, "aCategory.event": 0.1 }
+    }));
+    assert.strictEqual(Context.serverKnobs.getEventSamplingRate(event), 0.1);
+    assert.strictEqual(Context.serverKnobs.getEventSamplingRate(otherEvent), 0.5);
+  });
+});
@@ -9,12 +9,13 @@ import { v4 as UUIDv4 } from "uuid";
 import { Configuration } from "../../../../src/core/config";
 import { Context } from "../../../../src/core/context";
 import PingUploadManager from "../../../../src/core/upload/manager";
-import { UploadResultStatus } from "../../../../src/core/upload/uploader";
+import { UploadResult, UploadResultStatus } from "../../../../src/core/upload/uploader";
 import { CounterUploader, WaitableUploader } from "../../../utils";
 import PingsDatabase from "../../../../src/core/pings/database";
 import { makePath } from "../../../../src/core/pings/maker";
 import { UploadTaskTypes } from "../../../../src/core/upload/task";
-import { MAX_PINGS_PER_INTERVAL } from "../../../../src/core/upload/rate_limiter";
+import RateLimiter, { MAX_PINGS_PER_INTERVAL } from "../../../../src/core/upload/rate_limiter";
+import Policy from "../../../../src/core/upload/policy";
 import { testResetGlean } from "../../../../src/core/testing";
 
 const sandbox = sinon.createSandbox();
@@ -29,6 +30,16 @@ const MOCK_PAYLOAD = {
   }
 };
 
+/**
+ * Waits for all the pending upload responses to be processed.
+ *
+ * Mock uploaders respond immediately, so all responses are processed
+ * before the next iteration of the event loop.
+ */
+async function waitForUploadResponses(): Promise<void> {
+  await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+}
+
 describe("PingUploadManager", function() {
   const testAppId = `gleanjs.test.${this.title}`;
   let pingsDatabase: PingsDatabase;
@@ -113,6 +124,23 @@ describe("PingUploadManager", function() {
     assert.strictEqual(uploader.getUploadTask().type, UploadTaskTypes.Wait);
   });
 
+  it("rate limits according to the configured upload policy", function () {
+    const uploader = new PingUploadManager(
+      new Configuration({ uploadPolicy: { maxPingsPerInterval: MAX_PINGS_PER_INTERVAL * 2 } }),
+      pingsDatabase
+    );
+    // Disable worker so that it is not calling `getUploadTask` in parallel.
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    uploader["worker"]["work"] = () => {};
+
+    fillUpPingsDatabase(MAX_PINGS_PER_INTERVAL * 3);
+
+    for (let i = 0; i < MAX_PINGS_PER_INTERVAL * 2; i++) {
+      assert.strictEqual(uploader.getUploadTask().type, UploadTaskTypes.Upload);
+    }
+    assert.strictEqual(uploader.getUploadTask().type, UploadTaskTypes.Wait);
+  });
+
   it("when throttled window is complete uploading jobs can be resumed", function () {
     const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
     // Disable worker so that it is not calling `getUploadTask` in parallel.
@@ -135,6 +163,24 @@ describe("PingUploadManager", function() {
     assert.strictEqual(uploader.getUploadTask().type, UploadTaskTypes.Done);
   });
 
+  it("throttled pings are uploaded once the throttling window is over", async function () {
+    const RATE_LIMITER_INTERVAL = 50;
+    const httpClient = new CounterUploader();
+    const uploader = new PingUploadManager(
+      new Configuration({ httpClient }),
+      pingsDatabase,
+      new Policy(),
+      new RateLimiter(RATE_LIMITER_INTERVAL, 2)
+    );
+
+    fillUpPingsDatabase(5);
+    assert.strictEqual(httpClient.count, 2);
+
+    await new Promise(resolve => setTimeout(resolve, RATE_LIMITER_INTERVAL * 3 + 50));
+    uploader.blockUploads();
+    assert.strictEqual(httpClient.count, 5);
+  });
+
   it("new pings are added to the queue and processed while upload is in process", function () {
     const httpClient = new CounterUploader();
     const uploader = new PingUploadManager(new Configuration({ httpClient }), pingsDatabase);
@@ -174,18 +220,19 @@ describe("PingUploadManager", function() {
     assert.strictEqual((await uploadedPings).length, 10);
   });
 
-  it("correctly deletes pings when upload is successful", function() {
+  it("correctly deletes pings when upload is successful", async function() {
     const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
 
     // There is no need to stub the upload adapter here,
     // as the default exported mock already returns a success response always.
     fillUpPingsDatabase(10);
+    await waitForUploadResponses();
 
     uploader.blockUploads();
     assert.deepStrictEqual(Context.pingsDatabase.getAllPings(), []);
   });
 
-  it("correctly deletes pings when upload is unrecoverably unsuccessful", function() {
+  it("correctly deletes pings when upload is unrecoverably unsuccessful", async function() {
     // Always return unrecoverable failure response from upload attempt.
     sandbox.stub(Context.platform.uploader, "post").callsFake(() => Promise.resolve({
       status: 400,
@@ -195,11 +242,47 @@ describe("PingUploadManager", function() {
     const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
 
     fillUpPingsDatabase(10);
+    await waitForUploadResponses();
     uploader.blockUploads();
     const allPings = Context.pingsDatabase.getAllPings();
     assert.deepStrictEqual(Object.keys(allPings).length, 0);
   });
 
+  it("pings are not deleted before a response to their upload attempt is received", async function() {
+    let resolveUpload: (result: UploadResult) => void = () => undefined;
+    sandbox.stub(Context.platform.uploader, "post").callsFake(() => new Promise((resolve) => {
+      resolveUpload = resolve;
+    }));
+
+    const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
+
+    fillUpPingsDatabase(1);
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 1);
+
+    resolveUpload(new UploadResult(UploadResultStatus.Success, 200));
+    await waitForUploadResponses();
+    uploader.blockUploads();
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+  });
+
+  it("pending pings are not uploaded twice in the same session", function() {
+    const httpClient = new CounterUploader();
+    const uploader = new PingUploadManager(new Configuration({ httpClient }), pingsDatabase);
+    // Disable worker so that pings stay in the queue.
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    uploader["worker"]["work"] = () => {};
+
+    fillUpPingsDatabase(5);
+    // Scanning will notify the manager about pings it already knows about.
+    pingsDatabase.scanPendingPings();
+    assert.strictEqual(uploader["queue"].length, 5);
+
+    // Once the upload is in progress, scanning does not enqueue the pings again either.
+    uploader.getUploadTask();
+    pingsDatabase.scanPendingPings();
+    assert.strictEqual(uploader["queue"].length, 4);
+  });
+
   it("correctly re-enqueues pings when upload is recoverably unsuccessful", function() {
     // Always return recoverable failure response from upload attempt.
     sandbox.stub(Context.platform.uploader, "post").callsFake(() => Promise.resolve({
@@ -213,6 +296,135 @@ describe("PingUploadManager", function() {
     assert.deepStrictEqual(Object.keys(allPings).length, 1);
   });
 
+  it("failed upload attempts are persisted", async function() {
+    sandbox.stub(Context.platform.uploader, "post").callsFake(() => Promise.resolve({
+      status: 500,
+      result: UploadResultStatus.Success
+    }));
+
+    const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
+
+    fillUpPingsDatabase(1);
+    await waitForUploadResponses();
+    uploader.blockUploads();
+
+    const [[_, ping]] = Context.pingsDatabase.getAllPings();
+    assert.strictEqual(ping.attempts, 1);
+  });
+
+  it("pings are retried once the backoff time is over", async function() {
+    const BASE_BACKOFF_TIME = 50;
+    const postStub = sandbox.stub(Context.platform.uploader, "post");
+    postStub.onFirstCall().resolves(new UploadResult(UploadResultStatus.RecoverableFailure));
+    postStub.resolves(new UploadResult(UploadResultStatus.Success, 200));
+
+    const uploader = new PingUploadManager(
+      new Configuration(),
+      pingsDatabase,
+      new Policy(3, 3, 1024 * 1024, BASE_BACKOFF_TIME)
+    );
+
+    fillUpPingsDatabase(1);
+    await waitForUploadResponses();
+    assert.strictEqual(postStub.callCount, 1);
+    assert.strictEqual(uploader.getUploadTask().type, UploadTaskTypes.Wait);
+
+    await new Promise(resolve => setTimeout(resolve, BASE_BACKOFF_TIME + 10));
+    await waitForUploadResponses();
+    uploader.blockUploads();
+
+    assert.strictEqual(postStub.callCount, 2);
+    assert.deepStrictEqual(Context.pingsDatabase.getAllPings(), []);
+  });
+
+  it("the uploading window ends after the maximum number of recoverable failures", async function() {
+    const MAX_RECOVERABLE_FAILURES = 3;
+    const postStub = sandbox.stub(Context.platform.uploader, "post")
+      .resolves(new UploadResult(UploadResultStatus.RecoverableFailure));
+
+    const uploader = new PingUploadManager(
+      new Configuration(),
+      pingsDatabase,
+      new Policy(3, MAX_RECOVERABLE_FAILURES, 1024 * 1024, 5, 5)
+    );
+
+    fillUpPingsDatabase(1);
+    // Plenty of time for many more attempts, if the backoff waits did not count towards the window.
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await waitForUploadResponses();
+    uploader.blockUploads();
+
+    assert.strictEqual(postStub.callCount, MAX_RECOVERABLE_FAILURES);
+    const [[_, ping]] = Context.pingsDatabase.getAllPings();
+    assert.strictEqual(ping.attempts, MAX_RECOVERABLE_FAILURES);
+  });
+
+  it("the maximum number of recoverable failures is configurable", async function() {
+    const postStub = sandbox.stub(Context.platform.uploader, "post")
+      .resolves(new UploadResult(UploadResultStatus.RecoverableFailure));
+
+    const uploader = new PingUploadManager(
+      new Configuration({ uploadPolicy: { maxRecoverableFailures: 2, baseBackoffTime: 5, maxBackoffTime: 5 } }),
+      pingsDatabase
+    );
+
+    fillUpPingsDatabase(1);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await waitForUploadResponses();
+    uploader.blockUploads();
+
+    assert.strictEqual(postStub.callCount, 2);
+  });
+
+  it("backoff time grows exponentially with the number of failed attempts", function() {
+    const uploader = new PingUploadManager(
+      new Configuration(),
+      pingsDatabase,
+      new Policy(3, 3, 1024 * 1024, 1000, 10_000)
+    );
+
+    const randomStub = sandbox.stub(Math, "random");
+    randomStub.returns(1);
+    assert.strictEqual(uploader["getBackoffTime"](1), 1000);
+    assert.strictEqual(uploader["getBackoffTime"](2), 2000);
+    assert.strictEqual(uploader["getBackoffTime"](3), 4000);
+    assert.strictEqual(uploader["getBackoffTime"](10), 10_000);
+
+    // Half of the backoff time is random.
+    randomStub.returns(0);
+    assert.strictEqual(uploader["getBackoffTime"](1), 500);
+    assert.strictEqual(uploader["getBackoffTime"](10), 5000);
+  });
+
+  it("the time requested by the server through Retry-After is honored", function() {
+    const uploader = new PingUploadManager(
+      new Configuration(),
+      pingsDatabase,
+      new Policy(3, 3, 1024 * 1024, 1000, 10 * 60 * 1000)
+    );
+    // Disable worker so that it does not schedule any work.
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    uploader["worker"]["work"] = () => {};
+
+    fillUpPingsDatabase(1);
+    const task = uploader.getUploadTask();
+    assert.ok(task.type === UploadTaskTypes.Upload);
+
+    uploader.processPingUploadResponse(
+      task.ping,
+      new UploadResult(UploadResultStatus.Success, 429, 60_000)
+    );
+
+    // 429 responses are recoverable failures.
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 1);
+    const nextTask = uploader.getUploadTask();
+    assert.ok(nextTask.type === UploadTaskTypes.Wait);
+    assert.ok(nextTask.remainingTime > 59_000 && nextTask.remainingTime <= 60_000);
+
+    // The requested time is capped by the policy.
+    assert.strictEqual(uploader["getBackoffTime"](1, 60 * 60 * 1000), 10 * 60 * 1000);
+  });
+
   it("duplicates are not enqueued", function() {
     const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
 
@@ -240,6 +452,85 @@ describe("PingUploadManager", function() {
     assert.strictEqual(uploader["queue"].length, 1);
   });
 
+  describe("connectivity", function () {
+    let online: boolean;
+    let onOnline: () => void;
+
+    beforeEach(function () {
+      online = true;
+      onOnline = () => undefined;
+      Context.platform.connectivity = {
+        isOnline: () => online,
+        onOnline: (callback: () => void) => {
+          onOnline = callback;
+          return () => { onOnline = () => undefined; };
+        }
+      };
+    });
+
+    afterEach(function () {
+      delete Context.platform.connectivity;
+    });
+
+    it("pings are not uploaded while offline", function () {
+      const httpClient = new CounterUploader();
+      const uploader = new PingUploadManager(new Configuration({ httpClient }), pingsDatabase);
+
+      online = false;
+      fillUpPingsDatabase(5);
+
+      assert.strictEqual(httpClient.count, 0);
+      assert.strictEqual(uploader["queue"].length, 5);
+      assert.strictEqual(uploader.getUploadTask().type, UploadTaskTypes.Done);
+    });
+
+    it("pending pings are uploaded once back online", async function () {
+      const httpClient = new CounterUploader();
+      new PingUploadManager(new Configuration({ httpClient }), pingsDatabase);
+
+      online = false;
+      fillUpPingsDatabase(5);
+      assert.strictEqual(httpClient.count, 0);
+
+      online = true;
+      onOnline();
+      assert.strictEqual(httpClient.count, 5);
+
+      // The counter uploader takes up to 10ms to respond.
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.deepStrictEqual(Context.pingsDatabase.getAllPings(), []);
+    });
+
+    it("managers no longer in use stop listening for the device to be back online", function () {
+      const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
+      const scanSpy = sandbox.spy(pingsDatabase, "scanPendingPings");
+
+      uploader.removeListeners();
+      onOnline();
+      assert.strictEqual(scanSpy.callCount, 0);
+    });
+
+    it("failures while offline do not count as upload attempts", function () {
+      const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
+      // Disable worker so that it does not schedule any work.
+      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      uploader["worker"]["work"] = () => {};
+
+      fillUpPingsDatabase(1);
+      const task = uploader.getUploadTask();
+      assert.ok(task.type === UploadTaskTypes.Upload);
+
+      online = false;
+      uploader.processPingUploadResponse(task.ping, new UploadResult(UploadResultStatus.RecoverableFailure));
+
+      assert.strictEqual(uploader["recoverableFailureCount"], 0);
+      assert.strictEqual(uploader["backoffUntil"], undefined);
+      assert.strictEqual(uploader["queue"].length, 1);
+      const [[_, ping]] = Context.pingsDatabase.getAllPings();
+      assert.strictEqual(ping.attempts, undefined);
+    });
+  });
+
   it("throttling doesn't kick in if we are right on the limit of allowed pings per interval", function () {
     const uploader = new PingUploadManager(new Configuration(), pingsDatabase);
 
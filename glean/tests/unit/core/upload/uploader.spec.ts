@@ -0,0 +1,38 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import sinon from "sinon";
+
+import { parseRetryAfter } from "../../../../src/core/upload/uploader";
+
+const sandbox = sinon.createSandbox();
+
+describe("Uploader", function () {
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("parseRetryAfter parses delays in seconds", function () {
+    assert.strictEqual(parseRetryAfter("0"), 0);
+    assert.strictEqual(parseRetryAfter("120"), 120_000);
+    assert.strictEqual(parseRetryAfter(" 5 "), 5000);
+  });
+
+  it("parseRetryAfter parses HTTP dates", function () {
+    const now = new Date("Wed, 21 Oct 2015 07:28:00 GMT");
+    sandbox.useFakeTimers(now.getTime());
+
+    assert.strictEqual(parseRetryAfter("Wed, 21 Oct 2015 07:30:00 GMT"), 120_000);
+    // Dates in the past mean there is no need to wait.
+    assert.strictEqual(parseRetryAfter("Wed, 21 Oct 2015 07:00:00 GMT"), 0);
+  });
+
+  it("parseRetryAfter ignores missing and invalid values", function () {
+    assert.strictEqual(parseRetryAfter(), undefined);
+    assert.strictEqual(parseRetryAfter(null), undefined);
+    assert.strictEqual(parseRetryAfter(""), undefined);
+    assert.strictEqual(parseRetryAfter("not a date"), undefined);
+  });
+});
@@ -111,6 +111,44 @@ describe("PingUploadWorker", function () {
     assert.strictEqual(uploader.count, 10);
   });
 
+  it("whenever a Wait task is received the worker resumes asking for tasks after the wait time", async function () {
+    const uploader = new CounterUploader();
+    const worker = new PingUploadWorker(uploader, "https://my-glean-test.com");
+    const tasksGenerator = mockGetUploadTasks([
+      UploadTaskTypes.Wait,
+      UploadTaskTypes.Upload,
+      // Always end with a Done task to make sure the worker stops asking for more tasks.
+      UploadTaskTypes.Done
+    ]);
+
+    worker.work(
+      () => tasksGenerator.next().value,
+      () => undefined
+    );
+
+    // Nothing is uploaded while waiting.
+    assert.strictEqual(uploader.count, 0);
+
+    await new Promise(resolve => setTimeout(resolve, MOCK_WAIT_TIME + 10));
+    assert.strictEqual(uploader.count, 1);
+  });
+
+  it("attempting to work while waiting is a no-op", async function () {
+    const uploader = new CounterUploader();
+    const worker = new PingUploadWorker(uploader, "https://my-glean-test.com");
+    const getUploadTask = sandbox.stub();
+    getUploadTask.onCall(0).returns(buildMockTask(UploadTaskTypes.Wait));
+    getUploadTask.returns(buildMockTask(UploadTaskTypes.Done));
+
+    worker.work(getUploadTask, () => undefined);
+    worker.work(getUploadTask, () => undefined);
+    assert.strictEqual(getUploadTask.callCount, 1);
+
+    await new Promise(resolve => setTimeout(resolve, MOCK_WAIT_TIME + 10));
+    // Only a single resume was scheduled.
+    assert.strictEqual(getUploadTask.callCount, 2);
+  });
+
   it("ping requests are built correctly", function () {
     const postSpy = sandbox.spy(TestPlatform.uploader, "post");
 
@@ -141,6 +179,180 @@ describe("PingUploadWorker", function () {
     assert.ok("X-Telemetry-Agent" in headers);
   });
 
+  it("encrypted ping requests are sent as a bare JWE", function () {
+    const postSpy = sandbox.spy(TestPlatform.uploader, "post");
+    const jwe = "eyJhbGciOiJFQ0RILUVTIn0..aXY.Y2lwaGVydGV4dA.dGFn";
+
+    const worker = new PingUploadWorker(TestPlatform.uploader, "https://my-glean-test.com");
+    const getUploadTask = sandbox.stub();
+    getUploadTask.onCall(0).returns(uploadTaskFactory.upload({
+      identifier: MOCK_PING_IDENTIFIER,
+      collectionDate: "2021-11-23T17:23:31.661Z",
+      payload: { payload: jwe },
+      headers: { "Content-Type": "application/jose" },
+      path: makePath(
+        MOCK_PING_IDENTIFIER,
+        { name: MOCK_PING_NAME, includeClientId: true, sendIfEmpty: true }
+      )
+    }));
+    getUploadTask.returns(buildMockTask(UploadTaskTypes.Done));
+
+    worker.work(getUploadTask, () => undefined);
+    worker.blockUploading();
+
+    const request = postSpy.firstCall.args[1];
+    assert.strictEqual(request.headers["Content-Type"], "application/jose");
+    assert.strictEqual(request.headers["Content-Length"], jwe.length.toString());
+    assert.strictEqual(request.payload, jwe);
+  });
+
+  it("payloads shaped like an encrypted payload are not sent as such without a content type", function () {
+    const postSpy = sandbox.spy(TestPlatform.uploader, "post");
+    const payload = { payload: "eyJhbGciOiJFQ0RILUVTIn0..aXY.Y2lwaGVydGV4dA.dGFn" };
+
+    const worker = new PingUploadWorker(TestPlatform.uploader, "https://my-glean-test.com");
+    const getUploadTask = sandbox.stub();
+    getUploadTask.onCall(0).returns(uploadTaskFactory.upload({
+      identifier: MOCK_PING_IDENTIFIER,
+      collectionDate: "2021-11-23T17:23:31.661Z",
+      payload,
+      path: makePath(
+        MOCK_PING_IDENTIFIER,
+        { name: MOCK_PING_NAME, includeClientId: true, sendIfEmpty: true }
+      )
+    }));
+    getUploadTask.returns(buildMockTask(UploadTaskTypes.Done));
+
+    worker.work(getUploadTask, () => undefined);
+    worker.blockUploading();
+
+    const request = postSpy.firstCall.args[1];
+    assert.strictEqual(request.headers["Content-Type"], "application/json; charset=utf-8");
+    assert.strictEqual(request.payload, JSON.stringify(payload));
+  });
+
+  describe("while the application is hidden", function () {
+    let hidden: boolean;
+    let beaconUploader: CounterUploader;
+
+    beforeEach(function () {
+      hidden = true;
+      beaconUploader = new CounterUploader();
+      Context.platform.lifecycle = { isHidden: () => hidden, onVisibilityChange: sinon.stub() };
+      Context.platform.beaconUploader = beaconUploader;
+    });
+
+    afterEach(function () {
+      delete Context.platform.lifecycle;
+      delete Context.platform.beaconUploader;
+      Context.config.debugViewTag = undefined;
+    });
+
+    it("pings are sent through the beacon uploader", function () {
+      const postSpy = sandbox.spy(TestPlatform.uploader, "post");
+      const worker = new PingUploadWorker(TestPlatform.uploader, "https://my-glean-test.com");
+      const tasksGenerator = mockGetUploadTasks([
+        UploadTaskTypes.Upload,
+        UploadTaskTypes.Upload,
+        // Always end with a Done task to make sure the worker stops asking for more tasks.
+        UploadTaskTypes.Done
+      ]);
+      const getUploadTask = () => {
+        const task = tasksGenerator.next().value;
+        // The application is shown again after the first upload.
+        hidden = beaconUploader.count === 0;
+        return task;
+      };
+
+      worker.work(getUploadTask, () => undefined);
+      worker.blockUploading();
+
+      assert.strictEqual(beaconUploader.count, 1);
+      assert.strictEqual(postSpy.callCount, 1);
+    });
+
+    it("custom uploaders are always respected", function () {
+      const uploader = new CounterUploader();
+      const worker = new PingUploadWorker(uploader, "https://my-glean-test.com");
+      const tasksGenerator = mockGetUploadTasks([
+        UploadTaskTypes.Upload,
+        // Always end with a Done task to make sure the worker stops asking for more tasks.
+        UploadTaskTypes.Done
+      ]);
+
+      worker.work(() => tasksGenerator.next().value, () => undefined);
+      worker.blockUploading();
+
+      assert.strictEqual(beaconUploader.count, 0);
+      assert.strictEqual(uploader.count, 1);
+    });
+
+    it("pings which need custom headers are not sent through a beacon uploader which does not support them", function () {
+      sandbox.stub(beaconUploader, "supportsCustomHeaders").returns(false);
+      Context.config.debugViewTag = "test-tag";
+
+      const postSpy = sandbox.spy(TestPlatform.uploader, "post");
+      const worker = new PingUploadWorker(TestPlatform.uploader, "https://my-glean-test.com");
+      const tasksGenerator = mockGetUploadTasks([
+        UploadTaskTypes.Upload,
+        // Always end with a Done task to make sure the worker stops asking for more tasks.
+        UploadTaskTypes.Done
+      ]);
+
+      worker.work(() => tasksGenerator.next().value, () => undefined);
+      worker.blockUploading();
+
+      assert.strictEqual(beaconUploader.count, 0);
+      assert.strictEqual(postSpy.callCount, 1);
+    });
+
+    it("pings which need the debug headers are sent through a beacon uploader which supports them", function () {
+      sandbox.stub(beaconUploader, "supportsCustomHeaders").returns(false);
+      sandbox.stub(beaconUploader, "supportsDebugHeaders").returns(true);
+      Context.config.debugViewTag = "test-tag";
+
+      const postSpy = sandbox.spy(TestPlatform.uploader, "post");
+      const worker = new PingUploadWorker(TestPlatform.uploader, "https://my-glean-test.com");
+      const tasksGenerator = mockGetUploadTasks([
+        UploadTaskTypes.Upload,
+        // Always end with a Done task to make sure the worker stops asking for more tasks.
+        UploadTaskTypes.Done
+      ]);
+
+      worker.work(() => tasksGenerator.next().value, () => undefined);
+      worker.blockUploading();
+
+      assert.strictEqual(beaconUploader.count, 1);
+      assert.strictEqual(postSpy.callCount, 0);
+    });
+
+    it("encoded pings are not sent through a beacon uploader which does not support custom headers", function () {
+      sandbox.stub(beaconUploader, "supportsCustomHeaders").returns(false);
+      sandbox.stub(beaconUploader, "supportsDebugHeaders").returns(true);
+
+      const postSpy = sandbox.spy(TestPlatform.uploader, "post");
+      const worker = new PingUploadWorker(TestPlatform.uploader, "https://my-glean-test.com");
+      const getUploadTask = sandbox.stub();
+      getUploadTask.onCall(0).returns(uploadTaskFactory.upload({
+        identifier: MOCK_PING_IDENTIFIER,
+        collectionDate: "2021-11-23T17:23:31.661Z",
+        payload: { payload: "eyJhbGciOiJFQ0RILUVTIn0..aXY.Y2lwaGVydGV4dA.dGFn" },
+        headers: { "Content-Type": "application/jose" },
+        path: makePath(
+          MOCK_PING_IDENTIFIER,
+          { name: MOCK_PING_NAME, includeClientId: true, sendIfEmpty: true }
+        )
+      }));
+      getUploadTask.returns(buildMockTask(UploadTaskTypes.Done));
+
+      worker.work(getUploadTask, () => undefined);
+      worker.blockUploading();
+
+      assert.strictEqual(beaconUploader.count, 0);
+      assert.strictEqual(postSpy.callCount, 1);
+    });
+  });
+
   it("successful upload attempts to return the correct upload result", function () {
     const postSpy = sandbox.stub(TestPlatform.uploader, "post")
       .onFirstCall().callsFake(() => Promise.resolve({
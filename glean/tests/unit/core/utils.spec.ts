@@ -144,4 +144,20 @@ describe("utils", function() {
     Context.testing = true;
     assert.strictEqual(utils.testOnlyCheck("not used"), true);
   });
+
+  it("hashToUnitInterval works correctly", function () {
+    // Hashes are stable.
+    const id = utils.generateUUIDv4();
+    assert.strictEqual(utils.hashToUnitInterval(id), utils.hashToUnitInterval(id));
+    assert.notStrictEqual(utils.hashToUnitInterval("a"), utils.hashToUnitInterval("b"));
+
+    // Hashes are in the [0, 1) interval and roughly uniformly distributed.
+    let sum = 0;
+    for (let i = 0; i < 1000; i++) {
+      const hash = utils.hashToUnitInterval(utils.generateUUIDv4());
+      assert.ok(hash >= 0 && hash < 1);
+      sum += hash;
+    }
+    assert.ok(sum / 1000 > 0.4 && sum / 1000 < 0.6);
+  });
 });
@@ -38,6 +38,17 @@ describe("Uploader/BrowserFetch", function () {
     }
   });
 
+  it("reports the time requested through the Retry-After header", async function () {
+    nock(MOCK_ENDPOINT).post(/./i).reply(503, "", { "Retry-After": "120" });
+
+    const response = BrowserFetchUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{}", 1024));
+    const expectedResponse = new UploadResult(UploadResultStatus.Success, 503, 120_000);
+    assert.deepStrictEqual(
+      await response,
+      expectedResponse
+    );
+  });
+
   it("returns the correct status for timeout requests", async function () {
     const TEST_TIMEOUT_MS = 100;
     const ORIGINAL_TIMEOUT_MS = BrowserFetchUploader.timeoutMs;
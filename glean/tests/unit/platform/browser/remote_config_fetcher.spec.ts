@@ -0,0 +1,46 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import "jsdom-global/register";
+import assert from "assert";
+import nock from "nock";
+import fetch from "node-fetch";
+
+import BrowserRemoteConfigFetcher from "../../../../src/platform/browser/remote_config_fetcher";
+
+const MOCK_ENDPOINT = "http://browser-config.example.com";
+
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+global.fetch = fetch;
+
+describe("RemoteConfigFetcher/Browser", function () {
+  afterEach(function () {
+    nock.cleanAll();
+  });
+
+  it("returns the body of successful responses", async function () {
+    nock(MOCK_ENDPOINT).get("/config.json").reply(200, "{\"pings_enabled\":{}}");
+
+    const body = await BrowserRemoteConfigFetcher.fetch(`${MOCK_ENDPOINT}/config.json`);
+    assert.strictEqual(body, "{\"pings_enabled\":{}}");
+  });
+
+  it("returns undefined for unsuccessful responses", async function () {
+    for (const status of [404, 500]) {
+      nock(MOCK_ENDPOINT).get("/config.json").reply(status, "{}");
+
+      assert.strictEqual(await BrowserRemoteConfigFetcher.fetch(`${MOCK_ENDPOINT}/config.json`), undefined);
+    }
+  });
+
+  it("returns undefined for request errors", async function () {
+    nock(MOCK_ENDPOINT).get("/config.json").replyWithError({
+      message: "something awful happened",
+      code: "AWFUL_ERROR",
+    });
+
+    assert.strictEqual(await BrowserRemoteConfigFetcher.fetch(`${MOCK_ENDPOINT}/config.json`), undefined);
+  });
+});
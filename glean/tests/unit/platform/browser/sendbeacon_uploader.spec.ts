@@ -7,8 +7,10 @@ import assert from "assert";
 import sinon from "sinon";
 import nock from "nock";
 import fetch from "node-fetch";
+import { gunzipSync, strFromU8 } from "fflate";
 
-import BrowserSendBeaconUploader from "../../../../src/platform/browser/sendbeacon_uploader";
+import BrowserSendBeaconUploader, { MAX_BEACON_PAYLOAD_SIZE, buildBeaconURL } from "../../../../src/platform/browser/sendbeacon_uploader";
+import BrowserFetchUploader from "../../../../src/platform/browser/fetch_uploader";
 import { UploadResult, UploadResultStatus } from "../../../../src/core/upload/uploader";
 import PingRequest from "../../../../src/core/upload/ping_request";
 
@@ -16,23 +18,56 @@ const sandbox = sinon.createSandbox();
 
 const MOCK_ENDPOINT = "http://www.example.com";
 
-// eslint-disable-next-line @typescript-eslint/ban-ts-comment
-// @ts-ignore
-global.navigator.sendBeacon = (url: string, content: string): boolean => {
-  void fetch(url, {
-    body: content,
+/**
+ * Mocks `navigator.sendBeacon` by posting the content through `fetch`.
+ *
+ * @param url The URL to send the content to.
+ * @param content The content to send.
+ * @returns Always `true`, i.e. the content was queued.
+ */
+function mockSendBeacon(url: string | URL, content?: BodyInit | null): boolean {
+  void fetch(url.toString(), {
+    body: content as string,
     method: "POST",
   });
 
   return true;
-};
+}
+
+/**
+ * Reads the contents of a Blob.
+ *
+ * @param blob The blob to read.
+ * @returns The contents of the blob.
+ */
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new window.FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+}
 
 describe("Uploader/BrowserSendBeacon", function () {
+  before(function () {
+    // jsdom does not implement `sendBeacon`, it needs to exist for it to be stubbed.
+    navigator.sendBeacon = () => true;
+  });
+
+  after(function () {
+    // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+    // @ts-ignore
+    delete navigator.sendBeacon;
+  });
+
   afterEach(function () {
     sandbox.restore();
   });
 
   it("returns the correct status for successful requests", async function () {
+    sandbox.stub(navigator, "sendBeacon").callsFake(mockSendBeacon);
+
     const TEST_PING_CONTENT = {"my-test-value": 40721};
     for (const status of [200, 400, 500]) {
       nock(MOCK_ENDPOINT).post(/./i, body => {
@@ -56,12 +91,98 @@ describe("Uploader/BrowserSendBeacon", function () {
       code: "AWFUL_ERROR",
     });
 
-    global.navigator.sendBeacon = () => false;
+    sandbox.stub(navigator, "sendBeacon").returns(false);
     const response = BrowserSendBeaconUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{}", 1024));
-    const expectedResponse = new UploadResult(UploadResultStatus.UnrecoverableFailure);
+    // The ping is kept, so that it is sent on the next load.
+    const expectedResponse = new UploadResult(UploadResultStatus.RecoverableFailure);
     assert.deepStrictEqual(
       await response,
       expectedResponse
     );
   });
+
+  it("sends a gzipped plain text body", async function () {
+    const TEST_PING_CONTENT = {"my-test-value": 40721};
+    const sendBeaconStub = sandbox.stub(navigator, "sendBeacon").returns(true);
+
+    await BrowserSendBeaconUploader.post(
+      MOCK_ENDPOINT,
+      new PingRequest("abc", {}, JSON.stringify(TEST_PING_CONTENT), 1024)
+    );
+
+    const [url, body] = sendBeaconStub.firstCall.args as [string, Blob];
+    assert.strictEqual(url, `${MOCK_ENDPOINT}?Content-Encoding=gzip`);
+    assert.strictEqual(body.type, "text/plain");
+    assert.deepStrictEqual(
+      JSON.parse(strFromU8(gunzipSync(await readBlob(body)))),
+      TEST_PING_CONTENT
+    );
+  });
+
+  it("sends debug headers as query parameters", async function () {
+    const sendBeaconStub = sandbox.stub(navigator, "sendBeacon").returns(true);
+
+    await BrowserSendBeaconUploader.post(
+      MOCK_ENDPOINT,
+      new PingRequest("abc", { "X-Debug-ID": "test-tag", "X-Source-Tags": "tag1,tag2" }, "{}", 1024)
+    );
+
+    assert.strictEqual(
+      sendBeaconStub.firstCall.args[0],
+      `${MOCK_ENDPOINT}?Content-Encoding=gzip&X-Debug-ID=test-tag&X-Source-Tags=tag1%2Ctag2`
+    );
+  });
+
+  it("beacon URLs are built correctly", function () {
+    assert.strictEqual(buildBeaconURL(MOCK_ENDPOINT, {}), MOCK_ENDPOINT);
+    assert.strictEqual(
+      buildBeaconURL(MOCK_ENDPOINT, { "Content-Type": "application/json", "X-Debug-ID": "test-tag" }),
+      `${MOCK_ENDPOINT}?X-Debug-ID=test-tag`
+    );
+    assert.strictEqual(
+      buildBeaconURL(`${MOCK_ENDPOINT}?a=b`, { "X-Debug-ID": "test-tag" }),
+      `${MOCK_ENDPOINT}?a=b&X-Debug-ID=test-tag`
+    );
+  });
+
+  it("only the debug headers are supported", function () {
+    assert.strictEqual(BrowserSendBeaconUploader.supportsCustomHeaders(), false);
+    assert.strictEqual(BrowserSendBeaconUploader.supportsDebugHeaders(), true);
+  });
+
+  it("pings larger than the beacon limit after compression fall back to fetch", async function () {
+    const sendBeaconStub = sandbox.stub(navigator, "sendBeacon").returns(true);
+    const fetchStub = sandbox.stub(BrowserFetchUploader, "post")
+      .resolves(new UploadResult(UploadResultStatus.Success, 200));
+
+    // Random contents do not compress well.
+    let payload = "";
+    while (payload.length < MAX_BEACON_PAYLOAD_SIZE * 3) {
+      payload += Math.random().toString(36).slice(2);
+    }
+
+    const response = BrowserSendBeaconUploader.post(
+      MOCK_ENDPOINT,
+      new PingRequest("abc", {}, payload, MAX_BEACON_PAYLOAD_SIZE * 4)
+    );
+    assert.deepStrictEqual(
+      await response,
+      new UploadResult(UploadResultStatus.Success, 200)
+    );
+    assert.strictEqual(sendBeaconStub.callCount, 0);
+    assert.strictEqual(fetchStub.callCount, 1);
+  });
+
+  it("pings which compress below the beacon limit are sent through sendBeacon", async function () {
+    const sendBeaconStub = sandbox.stub(navigator, "sendBeacon").returns(true);
+    const fetchStub = sandbox.stub(BrowserFetchUploader, "post");
+
+    const payload = "a".repeat(MAX_BEACON_PAYLOAD_SIZE * 2);
+    await BrowserSendBeaconUploader.post(
+      MOCK_ENDPOINT,
+      new PingRequest("abc", {}, payload, MAX_BEACON_PAYLOAD_SIZE * 4)
+    );
+    assert.strictEqual(sendBeaconStub.callCount, 1);
+    assert.strictEqual(fetchStub.callCount, 0);
+  });
 });
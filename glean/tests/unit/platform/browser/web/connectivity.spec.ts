@@ -0,0 +1,46 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import "jsdom-global/register";
+import assert from "assert";
+import sinon from "sinon";
+
+import Connectivity from "../../../../../src/platform/browser/web/connectivity";
+
+const sandbox = sinon.createSandbox();
+
+describe("Connectivity/browser/web", function () {
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("online state is taken from the navigator", function () {
+    const onLineStub = sandbox.stub(Object.getPrototypeOf(navigator), "onLine");
+
+    onLineStub.get(() => true);
+    assert.strictEqual(Connectivity.isOnline(), true);
+
+    onLineStub.get(() => false);
+    assert.strictEqual(Connectivity.isOnline(), false);
+  });
+
+  it("callbacks are called whenever the online event is fired", function () {
+    const callback = sandbox.spy();
+    Connectivity.onOnline(callback);
+
+    window.dispatchEvent(new Event("online"));
+    window.dispatchEvent(new Event("offline"));
+    window.dispatchEvent(new Event("online"));
+    assert.strictEqual(callback.callCount, 2);
+  });
+
+  it("removed callbacks are not called anymore", function () {
+    const callback = sandbox.spy();
+    const removeCallback = Connectivity.onOnline(callback);
+
+    removeCallback();
+    window.dispatchEvent(new Event("online"));
+    assert.strictEqual(callback.callCount, 0);
+  });
+});
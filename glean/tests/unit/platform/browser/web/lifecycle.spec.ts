@@ -0,0 +1,79 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import "jsdom-global/register";
+import assert from "assert";
+import sinon from "sinon";
+
+import Lifecycle from "../../../../../src/platform/browser/web/lifecycle";
+
+const sandbox = sinon.createSandbox();
+
+describe("Lifecycle/browser/web", function () {
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("the page is hidden whenever its visibility state is hidden", function () {
+    const visibilityStub = sandbox.stub(Object.getPrototypeOf(document), "visibilityState");
+
+    visibilityStub.get(() => "visible");
+    assert.strictEqual(Lifecycle.isHidden(), false);
+
+    visibilityStub.get(() => "hidden");
+    assert.strictEqual(Lifecycle.isHidden(), true);
+  });
+
+  it("the page is hidden between pagehide and pageshow events", function () {
+    sandbox.stub(Object.getPrototypeOf(document), "visibilityState").get(() => "visible");
+
+    let hiddenDuringPagehide;
+    const listener = () => hiddenDuringPagehide = Lifecycle.isHidden();
+    window.addEventListener("pagehide", listener);
+    window.dispatchEvent(new Event("pagehide"));
+    window.removeEventListener("pagehide", listener);
+
+    // The state is already up to date within the listeners of the application.
+    assert.strictEqual(hiddenDuringPagehide, true);
+    assert.strictEqual(Lifecycle.isHidden(), true);
+
+    window.dispatchEvent(new Event("pageshow"));
+    assert.strictEqual(Lifecycle.isHidden(), false);
+  });
+
+  it("visibility change callbacks are called once per change", function () {
+    const visibilityStub = sandbox.stub(Object.getPrototypeOf(document), "visibilityState");
+    visibilityStub.get(() => "visible");
+    const callback = sandbox.spy();
+    Lifecycle.onVisibilityChange(callback);
+
+    // Closing the page fires both `pagehide` and `visibilitychange`.
+    window.dispatchEvent(new Event("pagehide"));
+    visibilityStub.get(() => "hidden");
+    document.dispatchEvent(new Event("visibilitychange"));
+    assert.ok(callback.calledOnceWith(true));
+
+    window.dispatchEvent(new Event("pageshow"));
+    assert.strictEqual(callback.callCount, 1);
+    visibilityStub.get(() => "visible");
+    document.dispatchEvent(new Event("visibilitychange"));
+    assert.strictEqual(callback.callCount, 2);
+    assert.strictEqual(callback.lastCall.args[0], false);
+  });
+
+  it("removed visibility change callbacks are not called anymore", function () {
+    const visibilityStub = sandbox.stub(Object.getPrototypeOf(document), "visibilityState");
+    visibilityStub.get(() => "visible");
+    const callback = sandbox.spy();
+    const removeCallback = Lifecycle.onVisibilityChange(callback);
+
+    removeCallback();
+    visibilityStub.get(() => "hidden");
+    document.dispatchEvent(new Event("visibilitychange"));
+    assert.strictEqual(callback.callCount, 0);
+
+    visibilityStub.get(() => "visible");
+    document.dispatchEvent(new Event("visibilitychange"));
+  });
+});
@@ -0,0 +1,37 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import sinon from "sinon";
+
+import NodePlatform from "../../../../src/platform/node";
+
+const sandbox = sinon.createSandbox();
+
+describe("NodePlatform", function () {
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("timers do not keep the process alive", function () {
+    const setTimeoutSpy = sandbox.spy(global, "setTimeout");
+    const id = NodePlatform.timer.setTimeout(() => undefined, 60 * 1000);
+    try {
+      assert.strictEqual(typeof id, "number");
+      const timer = setTimeoutSpy.firstCall.returnValue;
+      assert.strictEqual(timer.hasRef(), false);
+    } finally {
+      NodePlatform.timer.clearTimeout(id);
+    }
+  });
+
+  it("timers can be cleared through their identifier", async function () {
+    const callback = sinon.fake();
+    const id = NodePlatform.timer.setTimeout(callback, 0);
+    NodePlatform.timer.clearTimeout(id);
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert.strictEqual(callback.callCount, 0);
+  });
+});
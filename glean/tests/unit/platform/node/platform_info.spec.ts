@@ -0,0 +1,47 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import os from "os";
+import sinon from "sinon";
+
+import { KnownOperatingSystems } from "../../../../src/core/platform_info";
+import PlatformInfo from "../../../../src/platform/node/platform_info";
+
+const sandbox = sinon.createSandbox();
+
+describe("PlatformInfo/node", function () {
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("expected OS is returned for known platforms", function () {
+    const expected: Record<string, string> = {
+      "win32": KnownOperatingSystems.Windows,
+      "darwin": KnownOperatingSystems.MacOS,
+      "linux": KnownOperatingSystems.Linux,
+      "android": KnownOperatingSystems.Android,
+      "freebsd": KnownOperatingSystems.FreeBSD,
+      "openbsd": KnownOperatingSystems.OpenBSD,
+      "sunos": KnownOperatingSystems.SunOS,
+      "aix": KnownOperatingSystems.AIX,
+      "haiku": KnownOperatingSystems.Unknown,
+    };
+
+    const platformStub = sandbox.stub(os, "platform");
+    for (const platform in expected) {
+      platformStub.returns(platform as NodeJS.Platform);
+      assert.strictEqual(
+        PlatformInfo.os(),
+        expected[platform],
+        `Expected "${platform}" platform to yield the "${expected[platform]}" OS.`
+      );
+    }
+  });
+
+  it("OS version and architecture come from the running system", function () {
+    assert.strictEqual(PlatformInfo.osVersion(), os.release());
+    assert.strictEqual(PlatformInfo.arch(), os.arch());
+  });
+});
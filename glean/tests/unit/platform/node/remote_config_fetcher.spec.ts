@@ -0,0 +1,42 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import nock from "nock";
+
+import NodeRemoteConfigFetcher from "../../../../src/platform/node/remote_config_fetcher";
+
+// Use a dedicated host, so that requests still in flight from other suites
+// are never matched against the interceptors set up here.
+const MOCK_ENDPOINT = "http://node-config.example.com";
+
+describe("RemoteConfigFetcher/Node", function () {
+  afterEach(function () {
+    nock.cleanAll();
+  });
+
+  it("returns the body of successful responses", async function () {
+    nock(MOCK_ENDPOINT).get("/config.json").reply(200, "{\"pings_enabled\":{}}");
+
+    const body = await NodeRemoteConfigFetcher.fetch(`${MOCK_ENDPOINT}/config.json`);
+    assert.strictEqual(body, "{\"pings_enabled\":{}}");
+  });
+
+  it("returns undefined for unsuccessful responses", async function () {
+    for (const status of [301, 404, 500]) {
+      nock(MOCK_ENDPOINT).get("/config.json").reply(status, "{}");
+
+      assert.strictEqual(await NodeRemoteConfigFetcher.fetch(`${MOCK_ENDPOINT}/config.json`), undefined);
+    }
+  });
+
+  it("returns undefined for request errors", async function () {
+    nock(MOCK_ENDPOINT).get("/config.json").replyWithError({
+      message: "something awful happened",
+      code: "AWFUL_ERROR",
+    });
+
+    assert.strictEqual(await NodeRemoteConfigFetcher.fetch(`${MOCK_ENDPOINT}/config.json`), undefined);
+  });
+});
@@ -0,0 +1,91 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import nock from "nock";
+import { gunzipSync } from "fflate";
+
+import NodeUploader from "../../../../src/platform/node/uploader";
+import { UploadResult, UploadResultStatus } from "../../../../src/core/upload/uploader";
+import PingRequest from "../../../../src/core/upload/ping_request";
+
+// Use a dedicated host, so that requests still in flight from other suites
+// are never matched against the interceptors set up here.
+const MOCK_ENDPOINT = "http://node.example.com";
+
+describe("Uploader/Node", function () {
+  afterEach(function () {
+    nock.cleanAll();
+  });
+
+  it("returns the correct status for successful requests", async function () {
+    for (const status of [200, 400, 500]) {
+      nock(MOCK_ENDPOINT).post(/./i).reply(status);
+
+      const response = NodeUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{}", 1024));
+      const expectedResponse = new UploadResult(UploadResultStatus.Success, status);
+      assert.deepStrictEqual(
+        await response,
+        expectedResponse
+      );
+    }
+  });
+
+  it("reports the time requested through the Retry-After header", async function () {
+    nock(MOCK_ENDPOINT).post(/./i).reply(429, "", { "Retry-After": "120" });
+
+    const response = NodeUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{}", 1024));
+    const expectedResponse = new UploadResult(UploadResultStatus.Success, 429, 120_000);
+    assert.deepStrictEqual(
+      await response,
+      expectedResponse
+    );
+  });
+
+  it("sends a gzipped body with the correct headers", async function () {
+    let receivedHeaders: Record<string, string | string[]> = {};
+    let receivedBody = "";
+    nock(MOCK_ENDPOINT)
+      .post(/./i)
+      .reply(function (_uri, body) {
+        receivedHeaders = this.req.headers;
+        receivedBody = new TextDecoder().decode(gunzipSync(Buffer.from(body as string, "hex")));
+        return [200];
+      });
+
+    await NodeUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{\"a\":1}", 1024));
+    assert.strictEqual(receivedHeaders["content-encoding"], "gzip");
+    assert.strictEqual(receivedBody, "{\"a\":1}");
+  });
+
+  it("returns the correct status for timeout requests", async function () {
+    const TEST_TIMEOUT_MS = 100;
+    const ORIGINAL_TIMEOUT_MS = NodeUploader.timeoutMs;
+    NodeUploader.timeoutMs = TEST_TIMEOUT_MS;
+
+    nock(MOCK_ENDPOINT).post(/./i).delay(TEST_TIMEOUT_MS + 1).reply(500);
+
+    const response = NodeUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{}", 1024));
+    const expectedResponse = new UploadResult(UploadResultStatus.RecoverableFailure);
+    assert.deepStrictEqual(
+      await response,
+      expectedResponse
+    );
+    NodeUploader.timeoutMs = ORIGINAL_TIMEOUT_MS;
+  });
+
+  it("returns the correct status for request errors", async function () {
+    nock(MOCK_ENDPOINT).post(/./i).replyWithError({
+      message: "something awful happened",
+      code: "AWFUL_ERROR",
+    });
+
+    const response = NodeUploader.post(MOCK_ENDPOINT, new PingRequest("abc", {}, "{}", 1024));
+    const expectedResponse = new UploadResult(UploadResultStatus.RecoverableFailure);
+    assert.deepStrictEqual(
+      await response,
+      expectedResponse
+    );
+  });
+});
@@ -3,14 +3,21 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
 
 import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sinon from "sinon";
 import "fake-indexeddb/auto";
 
 import type Store from "../../../src/core/storage.js";
 import type { JSONValue } from "../../../src/core/utils";
 
 import TestStore from "../../../src/platform/test/storage";
+import NodeStore, { setStorageDirectory } from "../../../src/platform/node/storage";
 import { isUndefined } from "../../../src/core/utils";
 
+const nodeStorageDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "glean-"));
+
 const stores: {
   [store: string]: {
     initializeStore: () => Store,
@@ -20,6 +27,18 @@ const stores: {
 } = {
   "TestStore": {
     initializeStore: (): TestStore => new TestStore("unused")
+  },
+  "NodeStore": {
+    initializeStore: (): NodeStore => new NodeStore("unused"),
+    before: () => {
+      // Each suite starts from a fresh, empty, directory.
+      setStorageDirectory(fs.mkdtempSync(path.join(nodeStorageDirectory, "store-")));
+      return Promise.resolve();
+    },
+    afterAll: () => {
+      fs.rmSync(nodeStorageDirectory, { recursive: true, force: true });
+      return Promise.resolve();
+    }
   }
 };
 
@@ -178,3 +197,28 @@ for (const store in stores) {
     });
   });
 }
+
+describe("storage/NodeStore", function () {
+  const sandbox = sinon.createSandbox();
+  const storageDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "glean-"));
+
+  before(function () {
+    setStorageDirectory(storageDirectory);
+  });
+
+  after(function () {
+    fs.rmSync(storageDirectory, { recursive: true, force: true });
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("failing to clean up after a failed write doesn't error", function () {
+    sandbox.stub(fs, "renameSync").throws(new Error("rename failed"));
+    sandbox.stub(fs, "unlinkSync").throws(Object.assign(new Error("unlink failed"), { code: "EPERM" }));
+
+    const store = new NodeStore("unused");
+    assert.doesNotThrow(() => store.update(["bip"], () => "bop"));
+  });
+});
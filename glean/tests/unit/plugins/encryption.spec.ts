@@ -0,0 +1,164 @@
+/* This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/. */
+
+import assert from "assert";
+import sinon from "sinon";
+import { strFromU8, strToU8 } from "fflate";
+
+import type { EncryptionJWK } from "../../../src/plugins/encryption";
+import type { PingPayload } from "../../../src/core/pings/ping_payload";
+import type { JSONObject } from "../../../src/core/utils";
+
+import PingEncryptionPlugin from "../../../src/plugins/encryption";
+import CoreEvents from "../../../src/core/events/index";
+import { Context } from "../../../src/core/context";
+import { InternalPingType as PingType } from "../../../src/core/pings/ping_type";
+import { testResetGlean } from "../../../src/core/testing";
+import { stopGleanUploader } from "../../utils";
+
+const sandbox = sinon.createSandbox();
+
+const MOCK_PAYLOAD = {
+  ping_info: {
+    seq: 0,
+    start_time: "2022-01-01T00:00+00:00",
+    end_time: "2022-01-01T00:01+00:00"
+  },
+  client_info: {
+    telemetry_sdk_build: "1.0.0"
+  }
+} as unknown as PingPayload;
+
+/**
+ * Decodes a base64url string.
+ *
+ * @param value The string to decode.
+ * @returns The decoded bytes.
+ */
+function base64UrlDecode(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, "base64url"));
+}
+
+/**
+ * Decrypts a compact ECDH-ES + A256GCM JWE.
+ *
+ * @param jwe The JWE to decrypt.
+ * @param privateKey The private key of the recipient.
+ * @returns The decrypted protected header and plaintext.
+ */
+async function decrypt(
+  jwe: string,
+  privateKey: CryptoKey
+): Promise<{ header: JSONObject, plaintext: string }> {
+  const [encodedHeader, encryptedKey, iv, ciphertext, tag] = jwe.split(".");
+  assert.strictEqual(encryptedKey, "");
+
+  const header = JSON.parse(strFromU8(base64UrlDecode(encodedHeader))) as JSONObject;
+  const algorithm = { name: "ECDH", namedCurve: "P-256" };
+  const ephemeralKey = await crypto.subtle.importKey("jwk", header.epk as JsonWebKey, algorithm, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: "ECDH", public: ephemeralKey }, privateKey, 256)
+  );
+
+  // Concat KDF, see https://www.rfc-editor.org/rfc/rfc7518#section-4.6.2.
+  const otherInfo = Buffer.concat([
+    Buffer.from([0, 0, 0, 7]),
+    Buffer.from("A256GCM"),
+    Buffer.from([0, 0, 0, 0, 0, 0, 0, 0]),
+    Buffer.from([0, 0, 1, 0])
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    Buffer.concat([Buffer.from([0, 0, 0, 1]), sharedSecret, otherInfo])
+  );
+  const key = await crypto.subtle.importKey("raw", digest, { name: "AES-GCM" }, false, ["decrypt"]);
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64UrlDecode(iv), additionalData: strToU8(encodedHeader) },
+    key,
+    Buffer.concat([base64UrlDecode(ciphertext), base64UrlDecode(tag)])
+  );
+
+  return { header, plaintext: strFromU8(new Uint8Array(plaintext)) };
+}
+
+describe("PingEncryptionPlugin", function() {
+  const testAppId = `gleanjs.test.${this.title}`;
+  let keyPair: CryptoKeyPair;
+  let jwk: EncryptionJWK;
+
+  before(async function () {
+    keyPair = await crypto.subtle.generateKey(
+      { name: "ECDH", namedCurve: "P-256" },
+      true,
+      ["deriveBits"]
+    );
+    const { x, y } = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+    jwk = { kty: "EC", crv: "P-256", x: x as string, y: y as string, kid: "test" };
+  });
+
+  beforeEach(function() {
+    testResetGlean(testAppId);
+  });
+
+  afterEach(function () {
+    sandbox.restore();
+  });
+
+  it("payloads are encrypted as a compact JWE", async function () {
+    const plugin = new PingEncryptionPlugin(jwk);
+    const { payload: { payload }, headers } = await plugin.action(MOCK_PAYLOAD);
+
+    assert.strictEqual(headers["Content-Type"], "application/jose");
+    assert.strictEqual(typeof payload, "string");
+    const { header, plaintext } = await decrypt(payload as string, keyPair.privateKey);
+    assert.strictEqual(header.alg, "ECDH-ES");
+    assert.strictEqual(header.enc, "A256GCM");
+    assert.strictEqual(header.kid, "test");
+    assert.strictEqual(header.typ, "JWE");
+    assert.deepStrictEqual(JSON.parse(plaintext), MOCK_PAYLOAD);
+  });
+
+  it("a new ephemeral key is used for each payload", async function () {
+    const plugin = new PingEncryptionPlugin(jwk);
+    const { payload: { payload: first } } = await plugin.action(MOCK_PAYLOAD);
+    const { payload: { payload: second } } = await plugin.action(MOCK_PAYLOAD);
+
+    const [firstHeader] = (first as string).split(".");
+    const [secondHeader] = (second as string).split(".");
+    assert.notStrictEqual(firstHeader, secondHeader);
+  });
+
+  it("the key id is omitted from the header when the key has none", async function () {
+    const plugin = new PingEncryptionPlugin({ ...jwk, kid: undefined });
+    const { payload: { payload } } = await plugin.action(MOCK_PAYLOAD);
+
+    const { header } = await decrypt(payload as string, keyPair.privateKey);
+    assert.ok(!("kid" in header));
+  });
+
+  it("collected pings are encrypted before being recorded", async function () {
+    testResetGlean(testAppId, true, { plugins: [ new PingEncryptionPlugin(jwk) ] });
+    assert.strictEqual(CoreEvents.afterPingCollection.registeredPluginIdentifier, "pingEncryptionPlugin");
+    // Keep the pings in the database, so that their payloads can be verified.
+    stopGleanUploader();
+
+    const ping = new PingType({
+      name: "ping",
+      includeClientId: true,
+      sendIfEmpty: true,
+    });
+    ping.submit();
+
+    // Encryption is asynchronous, nothing is recorded until it is done.
+    assert.strictEqual(Context.pingsDatabase.getAllPings().length, 0);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const [[_, storedPing]] = Context.pingsDatabase.getAllPings();
+    assert.deepStrictEqual(Object.keys(storedPing.payload), ["payload"]);
+    assert.strictEqual(storedPing.headers?.["Content-Type"], "application/jose");
+    const { plaintext } = await decrypt(storedPing.payload.payload as string, keyPair.privateKey);
+    assert.ok("ping_info" in JSON.parse(plaintext));
+  });
+});